@@ -0,0 +1,102 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import { Mail } from "lucide-react";
+import Link from "next/link";
+import { Suspense } from "react";
+import { motion } from "framer-motion";
+import { useSearchParams } from "next/navigation";
+import { useResendVerification } from "@/hooks/useResendVerification";
+import { LOGIN_PATH } from "@/lib/auth/session";
+
+export default function CheckEmailPage() {
+  // useSearchParams needs a Suspense boundary during prerendering
+  return (
+    <Suspense fallback={null}>
+      <CheckEmail />
+    </Suspense>
+  );
+}
+
+function CheckEmail() {
+  const email = useSearchParams().get("email") ?? "";
+  const { resend, remaining, isSending, canResend } =
+    useResendVerification(email);
+
+  return (
+    <div className="flex min-h-screen items-center justify-center p-4 bg-gradient-navy">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+        className="w-full max-w-md"
+      >
+        <Card className="border-border/30 bg-card/30 shadow-xl">
+          <CardHeader className="space-y-1 text-center pb-4">
+            <motion.div
+              initial={{ opacity: 0, scale: 0.9 }}
+              animate={{ opacity: 1, scale: 1 }}
+              transition={{ delay: 0.2 }}
+            >
+              <Mail className="h-10 w-10 mx-auto mb-3 text-accent" />
+              <CardTitle className="text-2xl font-bold text-shadow-sm">
+                Check Your Email
+              </CardTitle>
+              <CardDescription className="text-muted-foreground mt-1 text-sm">
+                {email ? (
+                  <>
+                    We sent a verification link to{" "}
+                    <span className="font-medium text-foreground">{email}</span>
+                  </>
+                ) : (
+                  "We sent you a verification link"
+                )}
+              </CardDescription>
+            </motion.div>
+          </CardHeader>
+          <CardContent className="pt-2 space-y-3">
+            <p className="text-sm text-muted-foreground text-center">
+              Open the link to activate your account, then sign in. It may
+              take a few minutes to arrive, so check your spam folder too.
+            </p>
+            {email && (
+              <Button
+                variant="outline"
+                onClick={resend}
+                disabled={!canResend || isSending}
+                className="w-full border-accent/50 hover:bg-accent/10 hover:border-accent"
+              >
+                {isSending
+                  ? "Sending..."
+                  : remaining > 0
+                    ? `Resend available in ${remaining}s`
+                    : "Resend Email"}
+              </Button>
+            )}
+          </CardContent>
+          <CardFooter className="flex flex-col space-y-4">
+            <Separator />
+            <div className="text-sm text-center text-muted-foreground">
+              Already verified?{" "}
+              <Link
+                href={LOGIN_PATH}
+                className="text-accent hover:text-accent/80 font-medium hover-accent transition-colors"
+              >
+                Sign in
+              </Link>
+            </div>
+          </CardFooter>
+        </Card>
+      </motion.div>
+    </div>
+  );
+}
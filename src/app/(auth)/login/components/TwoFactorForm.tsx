@@ -0,0 +1,157 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { KeyRound, ShieldCheck } from "lucide-react";
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { motion } from "framer-motion";
+import { useAuth } from "@/contexts/AuthContext";
+import { describeAuthError, isMfaChallengeExpired } from "@/lib/api/auth";
+
+// Covers both 6-digit TOTP codes and longer recovery codes
+const twoFactorSchema = z.object({
+  code: z.string().trim().min(6, "Enter your code"),
+});
+
+type TwoFactorFormValues = z.infer<typeof twoFactorSchema>;
+
+interface TwoFactorFormProps {
+  onVerified: () => void;
+  onCancel: () => void;
+  // The challenge timed out; the user has to enter their password again
+  onExpired: (message: string) => void;
+}
+
+export default function TwoFactorForm({
+  onVerified,
+  onCancel,
+  onExpired,
+}: TwoFactorFormProps) {
+  const [useRecovery, setUseRecovery] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { verifyMfa } = useAuth();
+
+  const form = useForm<TwoFactorFormValues>({
+    resolver: zodResolver(twoFactorSchema),
+    defaultValues: {
+      code: "",
+    },
+  });
+
+  const toggleRecovery = () => {
+    setUseRecovery((prev) => !prev);
+    setError(null);
+    form.reset({ code: "" });
+  };
+
+  const onSubmit = async (data: TwoFactorFormValues) => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const success = await verifyMfa(data.code.trim(), {
+        recovery: useRecovery,
+      });
+      if (success) {
+        onVerified();
+      } else {
+        setError(
+          useRecovery
+            ? "That recovery code isn't valid. Please try another."
+            : "Invalid or expired code. Please try again."
+        );
+      }
+    } catch (err) {
+      if (isMfaChallengeExpired(err)) {
+        onExpired(
+          describeAuthError(err, "Your sign-in attempt expired. Please start again.")
+        );
+        return;
+      }
+      setError(describeAuthError(err, "Unable to verify your code. Please try again."));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-3">
+        <FormField
+          control={form.control}
+          name="code"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-foreground">
+                {useRecovery ? "Recovery Code" : "Authentication Code"}
+              </FormLabel>
+              <FormControl>
+                <div className="relative">
+                  {useRecovery ? (
+                    <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  ) : (
+                    <ShieldCheck className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  )}
+                  <Input
+                    {...field}
+                    autoFocus
+                    autoComplete="one-time-code"
+                    inputMode={useRecovery ? "text" : "numeric"}
+                    placeholder={useRecovery ? "xxxx-xxxx" : "123456"}
+                    className="pl-10 font-mono tracking-widest"
+                  />
+                </div>
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {error && (
+          <div className="text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded p-2">
+            {error}
+          </div>
+        )}
+        <motion.div
+          whileHover={{ scale: isSubmitting ? 1 : 1.02 }}
+          whileTap={{ scale: isSubmitting ? 1 : 0.98 }}
+        >
+          <Button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+          >
+            {isSubmitting ? "Verifying..." : "Verify"}
+          </Button>
+        </motion.div>
+        <div className="flex items-center justify-between text-sm">
+          <button
+            type="button"
+            onClick={toggleRecovery}
+            className="text-muted-foreground hover:text-accent transition-colors"
+          >
+            {useRecovery ? "Use authenticator app" : "Use a recovery code"}
+          </button>
+          <button
+            type="button"
+            onClick={onCancel}
+            className="text-muted-foreground hover:text-accent transition-colors"
+          >
+            Back to sign in
+          </button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -20,12 +20,28 @@ import { Input } from "@/components/ui/input";
 import { Separator } from "@/components/ui/separator";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Eye, EyeOff, Mail, Lock } from "lucide-react";
-import { useState, useEffect } from "react";
+import Link from "next/link";
+import { Suspense, useState } from "react";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { motion } from "framer-motion";
-import { useRouter } from "next/navigation";
+import { useRouter, useSearchParams } from "next/navigation";
 import { useAuth } from "@/contexts/AuthContext";
+import { describeAuthError } from "@/lib/api/auth";
+import { OAuthButtons } from "@/components/OAuthButtons";
+import TwoFactorForm from "./components/TwoFactorForm";
+import {
+  ACCOUNT_DELETED_REASON,
+  EMAIL_VERIFIED_REASON,
+  IDLE_TIMEOUT_REASON,
+  OAUTH_ACCOUNT_EXISTS_REASON,
+  OAUTH_FAILED_REASON,
+  PASSWORD_RESET_REASON,
+  RESET_REQUESTED_REASON,
+  SESSION_EXPIRED_REASON,
+  SESSION_REVOKED_REASON,
+  getSafeRedirect,
+} from "@/lib/auth/session";
 
 const loginSchema = z.object({
   email: z.email("Please enter a valid email address"),
@@ -34,12 +50,45 @@ const loginSchema = z.object({
 
 type LoginFormValues = z.infer<typeof loginSchema>;
 
+const LOGIN_NOTICES: Record<string, string> = {
+  [SESSION_EXPIRED_REASON]: "Your session has expired. Please sign in again.",
+  [SESSION_REVOKED_REASON]:
+    "You were signed out from another device. Please sign in again.",
+  [RESET_REQUESTED_REASON]:
+    "If an account exists for that email, a reset link is on its way.",
+  [PASSWORD_RESET_REASON]:
+    "Your password has been reset. Sign in with your new password.",
+  [EMAIL_VERIFIED_REASON]: "Your email is verified. You can sign in now.",
+  [IDLE_TIMEOUT_REASON]:
+    "You were signed out after a period of inactivity. Please sign in again.",
+  [ACCOUNT_DELETED_REASON]: "Your account has been deleted.",
+  [OAUTH_FAILED_REASON]: "We couldn't sign you in with that provider. Please try again.",
+  [OAUTH_ACCOUNT_EXISTS_REASON]:
+    "An account with that email already exists. Sign in with your password, then link the provider under Account settings.",
+};
+
 export default function LoginPage() {
+  // useSearchParams needs a Suspense boundary during prerendering
+  return (
+    <Suspense fallback={null}>
+      <LoginForm />
+    </Suspense>
+  );
+}
+
+function LoginForm() {
   const [showPassword, setShowPassword] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const router = useRouter();
-  const { login, isAuthenticated } = useAuth();
+  const searchParams = useSearchParams();
+  const { login } = useAuth();
+  // Set when the password was accepted but a 2FA code is still needed;
+  // OAuth sign-ins arrive with `?step=mfa` for the same reason
+  const [mfaRequired, setMfaRequired] = useState(
+    searchParams.get("step") === "mfa"
+  );
+  const notice = LOGIN_NOTICES[searchParams.get("reason") ?? ""];
 
   const form = useForm<LoginFormValues>({
     resolver: zodResolver(loginSchema),
@@ -49,26 +98,26 @@ export default function LoginPage() {
     },
   });
 
-  // Redirect if already authenticated
-  useEffect(() => {
-    if (isAuthenticated) {
-      router.push("/dashboard");
-    }
-  }, [isAuthenticated, router]);
+  // The proxy sends signed-out visitors here with the page they wanted
+  const redirectAfterLogin = () => {
+    router.push(getSafeRedirect(searchParams.get("next")));
+  };
 
   const onSubmit = async (data: LoginFormValues) => {
     setIsSubmitting(true);
     setError(null);
     
     try {
-      const success = await login(data.email, data.password);
-      if (success) {
-        router.push("/dashboard");
+      const result = await login(data.email, data.password);
+      if (result === "success") {
+        redirectAfterLogin();
       } else {
-        setError("Invalid email or password. Please try again.");
+        setMfaRequired(true);
       }
-    } catch {
-      setError("An error occurred. Please try again.");
+    } catch (err) {
+      setError(
+        describeAuthError(err, "Invalid email or password. Please try again.")
+      );
     } finally {
       setIsSubmitting(false);
     }
@@ -90,97 +139,124 @@ export default function LoginPage() {
               transition={{ delay: 0.2 }}
             >
               <CardTitle className="text-2xl font-bold text-shadow-sm">
-                Welcome Back
+                {mfaRequired ? "Two-Factor Authentication" : "Welcome Back"}
               </CardTitle>
               <CardDescription className="text-muted-foreground mt-1 text-sm">
-                Sign in to your portfolio dashboard
+                {mfaRequired
+                  ? "Enter the code from your authenticator app"
+                  : "Sign in to your portfolio dashboard"}
               </CardDescription>
             </motion.div>
           </CardHeader>
           <CardContent className="pt-2">
-            <Form {...form}>
-              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-3">
-                <FormField
-                  control={form.control}
-                  name="email"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel className="text-foreground">Email</FormLabel>
-                      <FormControl>
-                        <div className="relative">
-                          <Mail className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                          <Input
-                            {...field}
-                            type="email"
-                            placeholder="you@example.com"
-                            className="pl-10"
-                          />
-                        </div>
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="password"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel className="text-foreground">Password</FormLabel>
-                      <FormControl>
-                        <div className="relative">
-                          <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                          <Input
-                            {...field}
-                            type={showPassword ? "text" : "password"}
-                            placeholder="••••••••"
-                            className="pl-10 pr-10"
-                          />
-                          <button
-                            type="button"
-                            onClick={() => setShowPassword(!showPassword)}
-                            className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-accent transition-colors"
-                          >
-                            {showPassword ? (
-                              <EyeOff className="h-4 w-4" />
-                            ) : (
-                              <Eye className="h-4 w-4" />
-                            )}
-                          </button>
-                        </div>
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                {/* <div className="flex items-center justify-between text-sm">
-                  <Link
-                    href="/forgot-password"
-                    className="text-muted-foreground hover:text-accent hover-accent transition-colors"
-                  >
-                    Forgot Password?
-                  </Link>
-                </div> */}
-                {error && (
-                  <div className="text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded p-2">
-                    {error}
+            {notice && !error && !mfaRequired && (
+              <div className="mb-3 text-sm text-muted-foreground bg-muted/30 border border-border/30 rounded p-2">
+                {notice}
+              </div>
+            )}
+            {mfaRequired ? (
+              <TwoFactorForm
+                onVerified={redirectAfterLogin}
+                onCancel={() => {
+                  setMfaRequired(false);
+                  form.resetField("password");
+                }}
+                onExpired={(message) => {
+                  setMfaRequired(false);
+                  form.resetField("password");
+                  setError(message);
+                }}
+              />
+            ) : (
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-3">
+                  <FormField
+                    control={form.control}
+                    name="email"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-foreground">Email</FormLabel>
+                        <FormControl>
+                          <div className="relative">
+                            <Mail className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                            <Input
+                              {...field}
+                              type="email"
+                              placeholder="you@example.com"
+                              className="pl-10"
+                            />
+                          </div>
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="password"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-foreground">Password</FormLabel>
+                        <FormControl>
+                          <div className="relative">
+                            <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                            <Input
+                              {...field}
+                              type={showPassword ? "text" : "password"}
+                              placeholder="••••••••"
+                              className="pl-10 pr-10"
+                            />
+                            <button
+                              type="button"
+                              onClick={() => setShowPassword(!showPassword)}
+                              className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-accent transition-colors"
+                            >
+                              {showPassword ? (
+                                <EyeOff className="h-4 w-4" />
+                              ) : (
+                                <Eye className="h-4 w-4" />
+                              )}
+                            </button>
+                          </div>
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <div className="flex items-center justify-between text-sm">
+                    <Link
+                      href="/forgot-password"
+                      className="text-muted-foreground hover:text-accent hover-accent transition-colors"
+                    >
+                      Forgot Password?
+                    </Link>
                   </div>
-                )}
-                <Separator className="my-6"/>   
-                <motion.div
-                  whileHover={{ scale: isSubmitting ? 1 : 1.02 }}
-                  whileTap={{ scale: isSubmitting ? 1 : 0.98 }}
-                >
-                  <Button
-                    type="submit"
-                    disabled={isSubmitting}
-                    className="w-full bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+                  {error && (
+                    <div className="text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded p-2">
+                      {error}
+                    </div>
+                  )}
+                  <Separator className="my-6"/>   
+                  <motion.div
+                    whileHover={{ scale: isSubmitting ? 1 : 1.02 }}
+                    whileTap={{ scale: isSubmitting ? 1 : 0.98 }}
                   >
-                    {isSubmitting ? "Signing in..." : "Sign In"}
-                  </Button>
-                </motion.div>
-              </form>
-            </Form>
+                    <Button
+                      type="submit"
+                      disabled={isSubmitting}
+                      className="w-full bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+                    >
+                      {isSubmitting ? "Signing in..." : "Sign In"}
+                    </Button>
+                  </motion.div>
+                </form>
+              </Form>
+            )}
+            {!mfaRequired && (
+              <div className="mt-4">
+                <OAuthButtons next={searchParams.get("next")} />
+              </div>
+            )}
           </CardContent>
           {/* <CardFooter className="flex flex-col space-y-4">
             <Separator />
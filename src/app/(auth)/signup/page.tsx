@@ -22,12 +22,13 @@ import { Separator } from "@/components/ui/separator";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Eye, EyeOff, Mail, Lock, User } from "lucide-react";
 import Link from "next/link";
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { motion } from "framer-motion";
 import { useRouter } from "next/navigation";
 import { useAuth } from "@/contexts/AuthContext";
+import { OAuthButtons } from "@/components/OAuthButtons";
 
 const signupSchema = z
   .object({
@@ -49,7 +50,7 @@ export default function SignupPage() {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const router = useRouter();
-  const { signup, isAuthenticated } = useAuth();
+  const { signup } = useAuth();
 
   const form = useForm<SignupFormValues>({
     resolver: zodResolver(signupSchema),
@@ -61,13 +62,6 @@ export default function SignupPage() {
     },
   });
 
-  // Redirect if already authenticated
-  useEffect(() => {
-    if (isAuthenticated) {
-      router.push("/dashboard");
-    }
-  }, [isAuthenticated, router]);
-
   const onSubmit = async (data: SignupFormValues) => {
     setIsSubmitting(true);
     setError(null);
@@ -75,7 +69,7 @@ export default function SignupPage() {
     try {
       const success = await signup(data.name, data.email, data.password);
       if (success) {
-        router.push("/dashboard");
+        router.push(`/check-email?${new URLSearchParams({ email: data.email })}`);
       } else {
         setError("Failed to create account. Please try again.");
       }
@@ -241,6 +235,9 @@ export default function SignupPage() {
                 </motion.div>
               </form>
             </Form>
+            <div className="mt-4">
+              <OAuthButtons />
+            </div>
           </CardContent>
           <CardFooter className="flex flex-col space-y-4">
             <Separator />
@@ -0,0 +1,131 @@
+"use client";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import { CheckCircle2, Loader2, XCircle } from "lucide-react";
+import Link from "next/link";
+import { Suspense, useEffect, useRef, useState } from "react";
+import { motion } from "framer-motion";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useAuth } from "@/contexts/AuthContext";
+import { authApi, describeAuthError } from "@/lib/api/auth";
+import {
+  DEFAULT_AUTHENTICATED_PATH,
+  EMAIL_VERIFIED_REASON,
+  LOGIN_PATH,
+} from "@/lib/auth/session";
+
+type VerificationStatus = "verifying" | "verified" | "failed";
+
+export default function VerifyEmailPage() {
+  // useSearchParams needs a Suspense boundary during prerendering
+  return (
+    <Suspense fallback={null}>
+      <VerifyEmail />
+    </Suspense>
+  );
+}
+
+function VerifyEmail() {
+  const token = useSearchParams().get("token");
+  const router = useRouter();
+  const { isAuthenticated, isLoading, refreshSession } = useAuth();
+  const [status, setStatus] = useState<VerificationStatus>(
+    token ? "verifying" : "failed"
+  );
+  const [error, setError] = useState<string | null>(
+    token ? null : "This verification link is invalid."
+  );
+  // Tokens are single-use; a second request (e.g. Strict Mode) would fail
+  const requested = useRef(false);
+
+  useEffect(() => {
+    // Wait for the session check so we know where to send the user after
+    if (!token || isLoading || requested.current) return;
+    requested.current = true;
+
+    const verify = async () => {
+      try {
+        await authApi.verifyEmail({ token });
+        setStatus("verified");
+        if (isAuthenticated) {
+          // Pick up the updated verification claim
+          await refreshSession({ force: true }).catch(() => undefined);
+          router.replace(DEFAULT_AUTHENTICATED_PATH);
+        } else {
+          router.replace(`${LOGIN_PATH}?reason=${EMAIL_VERIFIED_REASON}`);
+        }
+      } catch (err) {
+        setStatus("failed");
+        setError(
+          describeAuthError(
+            err,
+            "Unable to verify your email. The link may have expired."
+          )
+        );
+      }
+    };
+
+    verify();
+  }, [token, isLoading, isAuthenticated, refreshSession, router]);
+
+  return (
+    <div className="flex min-h-screen items-center justify-center p-4 bg-gradient-navy">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+        className="w-full max-w-md"
+      >
+        <Card className="border-border/30 bg-card/30 shadow-xl">
+          <CardHeader className="space-y-1 text-center pb-4">
+            <CardTitle className="text-2xl font-bold text-shadow-sm">
+              Email Verification
+            </CardTitle>
+            <CardDescription className="text-muted-foreground mt-1 text-sm">
+              {status === "verifying" && "Confirming your email address..."}
+              {status === "verified" && "Your email address is confirmed"}
+              {status === "failed" && "We couldn't confirm your email address"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="pt-2 flex flex-col items-center gap-3">
+            {status === "verifying" && (
+              <Loader2 className="h-10 w-10 animate-spin text-muted-foreground" />
+            )}
+            {status === "verified" && (
+              <CheckCircle2 className="h-10 w-10 text-accent" />
+            )}
+            {status === "failed" && (
+              <>
+                <XCircle className="h-10 w-10 text-destructive" />
+                {error && (
+                  <div className="w-full text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded p-2">
+                    {error}
+                  </div>
+                )}
+              </>
+            )}
+          </CardContent>
+          <CardFooter className="flex flex-col space-y-4">
+            <Separator />
+            <div className="text-sm text-center text-muted-foreground">
+              <Link
+                href={isAuthenticated ? DEFAULT_AUTHENTICATED_PATH : LOGIN_PATH}
+                className="text-accent hover:text-accent/80 font-medium hover-accent transition-colors"
+              >
+                {isAuthenticated ? "Go to dashboard" : "Back to sign in"}
+              </Link>
+            </div>
+          </CardFooter>
+        </Card>
+      </motion.div>
+    </div>
+  );
+}
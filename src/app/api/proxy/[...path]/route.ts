@@ -0,0 +1,82 @@
+import { NextRequest } from "next/server";
+import {
+  AuthTokens,
+  backendUrl,
+  badGateway,
+  clearSessionCookies,
+  clientHeaders,
+  readTokens,
+  refreshSession,
+  relayResponse,
+  setSessionCookies,
+} from "@/lib/auth/server";
+
+// Request headers worth forwarding; cookies and host stay on this side
+const FORWARDED_HEADERS = ["accept", "content-type"];
+
+/**
+ * Same-origin proxy for `apiFetch`: forwards `/api/proxy/<path>` to the
+ * backend with the bearer token taken from the httpOnly cookie, refreshing
+ * it once on a 401.
+ */
+async function handler(
+  request: NextRequest,
+  { params }: { params: Promise<{ path: string[] }> }
+) {
+  const { path } = await params;
+  const url = `${backendUrl(`/${path.join("/")}`)}${request.nextUrl.search}`;
+  const { accessToken, refreshToken } = readTokens(request);
+  // Buffered so the body can be replayed after a refresh
+  const body =
+    request.method === "GET" || request.method === "HEAD"
+      ? undefined
+      : await request.arrayBuffer();
+
+  const send = (token?: string) => {
+    const headers = new Headers(clientHeaders(request));
+    FORWARDED_HEADERS.forEach((name) => {
+      const value = request.headers.get(name);
+      if (value) headers.set(name, value);
+    });
+    if (token) headers.set("Authorization", `Bearer ${token}`);
+    return fetch(url, {
+      method: request.method,
+      headers,
+      body,
+      cache: "no-store",
+    });
+  };
+
+  let response: Response;
+  let refreshed: AuthTokens | null = null;
+
+  try {
+    response = await send(accessToken);
+    if (response.status === 401 && refreshToken) {
+      refreshed = await refreshSession(refreshToken, request);
+      if (refreshed) {
+        response = await send(refreshed.accessToken);
+      }
+    }
+  } catch {
+    const result = badGateway();
+    if (refreshed) setSessionCookies(result, refreshed);
+    return result;
+  }
+
+  const result = await relayResponse(response);
+  if (refreshed) {
+    setSessionCookies(result, refreshed);
+  } else if (response.status === 401 && refreshToken) {
+    clearSessionCookies(result);
+  }
+  return result;
+}
+
+export {
+  handler as GET,
+  handler as POST,
+  handler as PUT,
+  handler as PATCH,
+  handler as DELETE,
+};
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  AuthTokens,
+  MfaChallenge,
+  backendUrl,
+  badGateway,
+  badRequest,
+  clientHeaders,
+  readJsonBody,
+  relayResponse,
+  setMfaCookie,
+  startSession,
+} from "@/lib/auth/server";
+import { MfaRequiredResponse } from "@/lib/auth/session";
+
+export async function POST(request: NextRequest) {
+  const credentials = await readJsonBody<{
+    email?: string;
+    password?: string;
+  }>(request);
+  if (!credentials) {
+    return badRequest();
+  }
+
+  let data: AuthTokens | MfaChallenge;
+  try {
+    const response = await fetch(backendUrl("/api/auth/login"), {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...clientHeaders(request) },
+      body: JSON.stringify(credentials),
+      cache: "no-store",
+    });
+
+    if (!response.ok) {
+      return relayResponse(response);
+    }
+
+    data = (await response.json()) as AuthTokens | MfaChallenge;
+  } catch {
+    return badGateway();
+  }
+
+  // Password accepted but 2FA is on: keep the challenge token server-side
+  // until /api/session/mfa receives the code
+  if ("mfaRequired" in data && data.mfaRequired) {
+    const result = NextResponse.json<MfaRequiredResponse>({
+      mfaRequired: true,
+    });
+    setMfaCookie(result, data.mfaToken);
+    return result;
+  }
+
+  const email = credentials.email ?? "";
+  return startSession(data as AuthTokens, {
+    email,
+    name: email.split("@")[0],
+  });
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { backendUrl, clearSessionCookies, readTokens } from "@/lib/auth/server";
+
+export async function POST(request: NextRequest) {
+  const { refreshToken } = readTokens(request);
+
+  if (refreshToken) {
+    await fetch(backendUrl("/api/auth/logout"), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ refreshToken }),
+      cache: "no-store",
+    }).catch(() => {
+      // ignore logout failures, the cookies are cleared regardless
+    });
+  }
+
+  const response = new NextResponse(null, { status: 204 });
+  clearSessionCookies(response);
+  return response;
+}
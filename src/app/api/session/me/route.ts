@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  clearSessionCookies,
+  isTokenExpired,
+  readTokens,
+  refreshSession,
+  setSessionCookies,
+  toSessionResponse,
+} from "@/lib/auth/server";
+import { SessionResponse } from "@/lib/auth/session";
+
+export async function GET(request: NextRequest) {
+  const { accessToken, refreshToken } = readTokens(request);
+
+  if (accessToken && !isTokenExpired(accessToken)) {
+    return NextResponse.json<SessionResponse>(
+      toSessionResponse(accessToken)
+    );
+  }
+
+  // The access cookie expires before the refresh cookie; renew it here so a
+  // returning visitor doesn't have to log in again
+  const tokens = refreshToken ? await refreshSession(refreshToken, request) : null;
+  if (!tokens) {
+    const response = NextResponse.json(
+      { message: "Not authenticated" },
+      { status: 401 }
+    );
+    clearSessionCookies(response);
+    return response;
+  }
+
+  const response = NextResponse.json<SessionResponse>(
+    toSessionResponse(tokens.accessToken)
+  );
+  setSessionCookies(response, tokens);
+  return response;
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  AuthTokens,
+  backendUrl,
+  badGateway,
+  badRequest,
+  clientHeaders,
+  readJsonBody,
+  relayResponse,
+  startSession,
+} from "@/lib/auth/server";
+import { MFA_TOKEN_COOKIE } from "@/lib/auth/session";
+
+/**
+ * Second login step: exchanges the pending challenge plus a TOTP or
+ * recovery code for a session.
+ */
+export async function POST(request: NextRequest) {
+  const mfaToken = request.cookies.get(MFA_TOKEN_COOKIE)?.value;
+  if (!mfaToken) {
+    return NextResponse.json(
+      {
+        message: "Your sign-in attempt expired. Please start again.",
+        code: "MFA_CHALLENGE_EXPIRED",
+      },
+      { status: 401 }
+    );
+  }
+
+  const body = await readJsonBody<{
+    code?: string;
+    recoveryCode?: string;
+  }>(request);
+  if (!body) {
+    return badRequest();
+  }
+
+  let tokens: AuthTokens;
+  try {
+    const response = await fetch(backendUrl("/api/auth/mfa/verify"), {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...clientHeaders(request) },
+      body: JSON.stringify({
+        mfaToken,
+        code: body.code,
+        recoveryCode: body.recoveryCode,
+      }),
+      cache: "no-store",
+    });
+
+    if (!response.ok) {
+      return relayResponse(response);
+    }
+
+    tokens = (await response.json()) as AuthTokens;
+  } catch {
+    return badGateway();
+  }
+
+  return startSession(tokens);
+}
@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  AuthTokens,
+  MfaChallenge,
+  OAuthState,
+  backendUrl,
+  clearOAuthStateCookie,
+  clientHeaders,
+  deriveUser,
+  isTokenExpired,
+  oauthRedirectUri,
+  readOAuthState,
+  readTokens,
+  refreshSession,
+  setMfaCookie,
+  setSessionCookies,
+} from "@/lib/auth/server";
+import {
+  OAUTH_LINKED,
+  OAUTH_LINK_FAILED,
+  OAUTH_LINK_IN_USE,
+} from "@/lib/auth/oauth";
+import {
+  LOGIN_PATH,
+  OAUTH_ACCOUNT_EXISTS_REASON,
+  OAUTH_FAILED_REASON,
+} from "@/lib/auth/session";
+
+const redirectTo = (request: NextRequest, path: string) => {
+  const response = NextResponse.redirect(new URL(path, request.url));
+  clearOAuthStateCookie(response);
+  return response;
+};
+
+const accountPath = (result: string) => `/dashboard?tab=account&oauth=${result}`;
+
+async function signIn(request: NextRequest, code: string, oauth: OAuthState) {
+  const response = await fetch(
+    backendUrl(`/api/auth/oauth/${oauth.provider}`),
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...clientHeaders(request) },
+      body: JSON.stringify({
+        code,
+        redirectUri: oauthRedirectUri(request, oauth.provider),
+      }),
+      cache: "no-store",
+    }
+  );
+
+  if (!response.ok) {
+    // The email belongs to a password account that hasn't linked this provider
+    const reason =
+      response.status === 409 ? OAUTH_ACCOUNT_EXISTS_REASON : OAUTH_FAILED_REASON;
+    return redirectTo(request, `${LOGIN_PATH}?reason=${reason}`);
+  }
+
+  const data = (await response.json()) as AuthTokens | MfaChallenge;
+
+  // Same second step as a password login; the login page picks it up
+  if ("mfaRequired" in data && data.mfaRequired) {
+    const params = new URLSearchParams({ step: "mfa", next: oauth.next });
+    const result = redirectTo(request, `${LOGIN_PATH}?${params.toString()}`);
+    setMfaCookie(result, data.mfaToken);
+    return result;
+  }
+
+  const tokens = data as AuthTokens;
+  if (!deriveUser(tokens.accessToken).id) {
+    return redirectTo(request, `${LOGIN_PATH}?reason=${OAUTH_FAILED_REASON}`);
+  }
+
+  const result = redirectTo(request, oauth.next);
+  setSessionCookies(result, tokens);
+  return result;
+}
+
+async function link(request: NextRequest, code: string, oauth: OAuthState) {
+  let { accessToken } = readTokens(request);
+  const { refreshToken } = readTokens(request);
+  let refreshed: AuthTokens | null = null;
+
+  if ((!accessToken || isTokenExpired(accessToken)) && refreshToken) {
+    refreshed = await refreshSession(refreshToken, request);
+    accessToken = refreshed?.accessToken;
+  }
+  if (!accessToken) {
+    return redirectTo(request, LOGIN_PATH);
+  }
+
+  const response = await fetch(
+    backendUrl(`/api/users/me/identities/${oauth.provider}`),
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${accessToken}`,
+        ...clientHeaders(request),
+      },
+      body: JSON.stringify({
+        code,
+        redirectUri: oauthRedirectUri(request, oauth.provider),
+      }),
+      cache: "no-store",
+    }
+  );
+
+  // A 409 means the provider account is linked to someone else
+  const outcome = response.ok
+    ? OAUTH_LINKED
+    : response.status === 409
+      ? OAUTH_LINK_IN_USE
+      : OAUTH_LINK_FAILED;
+  const result = redirectTo(
+    request,
+    `${accountPath(outcome)}&provider=${oauth.provider}`
+  );
+  if (refreshed) {
+    setSessionCookies(result, refreshed);
+  }
+  return result;
+}
+
+/**
+ * Provider redirect target. Checks the state against the cookie set when
+ * the flow started, then signs in or links the account via the backend.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const { provider } = await params;
+  const { searchParams } = request.nextUrl;
+  const code = searchParams.get("code");
+  const oauth = readOAuthState(request);
+
+  const valid =
+    !!code &&
+    !!oauth &&
+    oauth.provider === provider &&
+    oauth.state === searchParams.get("state");
+
+  if (!valid) {
+    // Includes the user cancelling at the provider (`?error=access_denied`)
+    return oauth?.mode === "link"
+      ? redirectTo(request, accountPath(OAUTH_LINK_FAILED))
+      : redirectTo(request, `${LOGIN_PATH}?reason=${OAUTH_FAILED_REASON}`);
+  }
+
+  try {
+    return oauth.mode === "link"
+      ? await link(request, code, oauth)
+      : await signIn(request, code, oauth);
+  } catch {
+    return oauth.mode === "link"
+      ? redirectTo(request, accountPath(OAUTH_LINK_FAILED))
+      : redirectTo(request, `${LOGIN_PATH}?reason=${OAUTH_FAILED_REASON}`);
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  buildAuthorizeUrl,
+  oauthRedirectUri,
+  readTokens,
+  setOAuthStateCookie,
+} from "@/lib/auth/server";
+import { isOAuthProvider } from "@/lib/auth/oauth";
+import {
+  LOGIN_PATH,
+  OAUTH_FAILED_REASON,
+  getSafeRedirect,
+} from "@/lib/auth/session";
+
+/**
+ * Starts an OAuth flow: remembers a random state in a cookie and sends the
+ * browser to the provider's consent page.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const { provider } = await params;
+  const { searchParams } = request.nextUrl;
+  const mode = searchParams.get("mode") === "link" ? "link" : "login";
+  const failed = new URL(
+    `${LOGIN_PATH}?reason=${OAUTH_FAILED_REASON}`,
+    request.url
+  );
+
+  if (!isOAuthProvider(provider)) {
+    return NextResponse.redirect(failed);
+  }
+  // Linking needs an account to link to
+  if (mode === "link" && !readTokens(request).refreshToken) {
+    return NextResponse.redirect(new URL(LOGIN_PATH, request.url));
+  }
+
+  const state = crypto.randomUUID();
+  const authorizeUrl = buildAuthorizeUrl(
+    provider,
+    state,
+    oauthRedirectUri(request, provider)
+  );
+  if (!authorizeUrl) {
+    return NextResponse.redirect(failed);
+  }
+
+  const response = NextResponse.redirect(authorizeUrl);
+  setOAuthStateCookie(response, {
+    state,
+    provider,
+    mode,
+    next: getSafeRedirect(searchParams.get("next")),
+  });
+  return response;
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  clearSessionCookies,
+  readTokens,
+  refreshSession,
+  setSessionCookies,
+  toSessionResponse,
+} from "@/lib/auth/server";
+import { SessionResponse } from "@/lib/auth/session";
+
+export async function POST(request: NextRequest) {
+  const { refreshToken } = readTokens(request);
+  const tokens = refreshToken ? await refreshSession(refreshToken, request) : null;
+
+  if (!tokens) {
+    const response = NextResponse.json(
+      { message: "Session expired" },
+      { status: 401 }
+    );
+    clearSessionCookies(response);
+    return response;
+  }
+
+  const response = NextResponse.json<SessionResponse>(
+    toSessionResponse(tokens.accessToken)
+  );
+  setSessionCookies(response, tokens);
+  return response;
+}
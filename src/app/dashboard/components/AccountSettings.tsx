@@ -0,0 +1,426 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/components/ui/toast";
+import { PasswordStrengthMeter } from "@/components/PasswordStrengthMeter";
+import { useAuth } from "@/contexts/AuthContext";
+import { authApi, describeAuthError } from "@/lib/api/auth";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { motion } from "framer-motion";
+import { Download, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import ConnectedAccounts from "./ConnectedAccounts";
+
+const passwordSchema = z
+  .object({
+    currentPassword: z.string().min(1, "Enter your current password"),
+    newPassword: z.string().min(6, "Password must be at least 6 characters"),
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.newPassword === data.confirmPassword, {
+    message: "Passwords don't match",
+    path: ["confirmPassword"],
+  })
+  .refine((data) => data.newPassword !== data.currentPassword, {
+    message: "Choose a password you haven't used here",
+    path: ["newPassword"],
+  });
+
+const emailSchema = z.object({
+  email: z.string().email("Please enter a valid email address"),
+  password: z.string().min(1, "Enter your current password"),
+});
+
+type PasswordFormValues = z.infer<typeof passwordSchema>;
+type EmailFormValues = z.infer<typeof emailSchema>;
+
+export default function AccountSettings() {
+  const { user, changePassword, changeEmail, deleteAccount } = useAuth();
+  const { toast } = useToast();
+  const [passwordError, setPasswordError] = useState<string | null>(null);
+  const [emailError, setEmailError] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [deleteOpen, setDeleteOpen] = useState(false);
+  const [deleteConfirmation, setDeleteConfirmation] = useState("");
+  const [deletePassword, setDeletePassword] = useState("");
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const passwordForm = useForm<PasswordFormValues>({
+    resolver: zodResolver(passwordSchema),
+    defaultValues: {
+      currentPassword: "",
+      newPassword: "",
+      confirmPassword: "",
+    },
+  });
+
+  const emailForm = useForm<EmailFormValues>({
+    resolver: zodResolver(emailSchema),
+    defaultValues: {
+      email: "",
+      password: "",
+    },
+  });
+
+  const newPassword = passwordForm.watch("newPassword");
+
+  const onChangePassword = async (values: PasswordFormValues) => {
+    setPasswordError(null);
+    try {
+      await changePassword(values.currentPassword, values.newPassword);
+      passwordForm.reset();
+      toast({
+        title: "Password changed",
+        description: "Use your new password next time you sign in.",
+        variant: "success",
+      });
+    } catch (err) {
+      setPasswordError(describeAuthError(err, "Unable to change your password."));
+    }
+  };
+
+  const onChangeEmail = async (values: EmailFormValues) => {
+    setEmailError(null);
+    try {
+      const result = await changeEmail(values.email, values.password);
+      emailForm.reset();
+      toast({
+        title: "Email updated",
+        description:
+          result === "success"
+            ? `We sent a verification link to ${values.email}.`
+            : `We sent a verification link to ${values.email}. Reload the page to see your new address.`,
+        variant: "success",
+      });
+    } catch (err) {
+      setEmailError(describeAuthError(err, "Unable to change your email."));
+    }
+  };
+
+  const exportData = async () => {
+    try {
+      setIsExporting(true);
+      const data = await authApi.exportData();
+      const blob = new Blob([JSON.stringify(data, null, 2)], {
+        type: "application/json",
+      });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = "account-export.json";
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      toast({
+        title: "Export failed",
+        description: describeAuthError(err, "Unable to export your data."),
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const closeDeleteDialog = (open: boolean) => {
+    if (isDeleting) return;
+    setDeleteOpen(open);
+    if (!open) {
+      setDeleteConfirmation("");
+      setDeletePassword("");
+      setDeleteError(null);
+    }
+  };
+
+  const confirmDelete = async () => {
+    setDeleteError(null);
+    setIsDeleting(true);
+    try {
+      // Redirects to /login once the session is gone
+      await deleteAccount(deletePassword);
+    } catch (err) {
+      setDeleteError(describeAuthError(err, "Unable to delete your account."));
+      setIsDeleting(false);
+    }
+  };
+
+  const canDelete =
+    !!user && deleteConfirmation.trim() === user.email && !!deletePassword;
+
+  return (
+    <div className="space-y-4">
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+        className="grid gap-4 lg:grid-cols-2"
+      >
+        <Card className="border-border/30 bg-card/30">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-xl">Change Password</CardTitle>
+            <CardDescription className="text-xs mt-1">
+              Confirm your current password to set a new one
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="pt-3">
+            <Form {...passwordForm}>
+              <form
+                onSubmit={passwordForm.handleSubmit(onChangePassword)}
+                className="space-y-3"
+              >
+                <FormField
+                  control={passwordForm.control}
+                  name="currentPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Current Password</FormLabel>
+                      <FormControl>
+                        <Input
+                          {...field}
+                          type="password"
+                          autoComplete="current-password"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={passwordForm.control}
+                  name="newPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>New Password</FormLabel>
+                      <FormControl>
+                        <Input {...field} type="password" autoComplete="new-password" />
+                      </FormControl>
+                      <PasswordStrengthMeter password={newPassword} />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={passwordForm.control}
+                  name="confirmPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Confirm New Password</FormLabel>
+                      <FormControl>
+                        <Input {...field} type="password" autoComplete="new-password" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                {passwordError && (
+                  <div className="text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded p-2">
+                    {passwordError}
+                  </div>
+                )}
+                <Button
+                  type="submit"
+                  disabled={passwordForm.formState.isSubmitting}
+                  className="bg-primary text-primary-foreground hover:bg-primary/90"
+                >
+                  {passwordForm.formState.isSubmitting
+                    ? "Updating..."
+                    : "Change Password"}
+                </Button>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+
+        <Card className="border-border/30 bg-card/30">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-xl">Change Email</CardTitle>
+            <CardDescription className="text-xs mt-1">
+              Currently <span className="font-medium">{user?.email}</span>.
+              You&apos;ll need to verify the new address.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="pt-3">
+            <Form {...emailForm}>
+              <form
+                onSubmit={emailForm.handleSubmit(onChangeEmail)}
+                className="space-y-3"
+              >
+                <FormField
+                  control={emailForm.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>New Email</FormLabel>
+                      <FormControl>
+                        <Input {...field} type="email" autoComplete="email" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={emailForm.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Current Password</FormLabel>
+                      <FormControl>
+                        <Input
+                          {...field}
+                          type="password"
+                          autoComplete="current-password"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                {emailError && (
+                  <div className="text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded p-2">
+                    {emailError}
+                  </div>
+                )}
+                <Button
+                  type="submit"
+                  disabled={emailForm.formState.isSubmitting}
+                  className="bg-primary text-primary-foreground hover:bg-primary/90"
+                >
+                  {emailForm.formState.isSubmitting ? "Updating..." : "Change Email"}
+                </Button>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+
+        <ConnectedAccounts />
+
+        <Card className="border-border/30 bg-card/30">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-xl">Export Your Data</CardTitle>
+            <CardDescription className="text-xs mt-1">
+              Download your account and portfolio content as JSON
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="pt-3">
+            <Button
+              variant="outline"
+              onClick={exportData}
+              disabled={isExporting}
+              className="border-accent/50 hover:bg-accent/10 hover:border-accent"
+            >
+              <Download className="mr-2 h-4 w-4" />
+              {isExporting ? "Preparing..." : "Export Data"}
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card className="border-destructive/40 bg-card/30">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-xl text-destructive">Delete Account</CardTitle>
+            <CardDescription className="text-xs mt-1">
+              Permanently removes your account and portfolio content. This
+              cannot be undone.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="pt-3">
+            <Button
+              variant="outline"
+              onClick={() => setDeleteOpen(true)}
+              className="border-destructive/50 text-destructive hover:bg-destructive/10 hover:border-destructive"
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              Delete Account
+            </Button>
+          </CardContent>
+        </Card>
+      </motion.div>
+
+      <Dialog open={deleteOpen} onOpenChange={closeDeleteDialog}>
+        <DialogContent>
+          <DialogHeader className="pb-2">
+            <DialogTitle className="text-lg">Delete your account?</DialogTitle>
+            <DialogDescription className="text-xs">
+              Your profile, projects, experience, education and resumes will
+              be deleted. Export your data first if you want to keep a copy.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="space-y-2">
+              <Label htmlFor="delete-confirmation">
+                Type <span className="font-mono">{user?.email}</span> to confirm
+              </Label>
+              <Input
+                id="delete-confirmation"
+                value={deleteConfirmation}
+                onChange={(e) => setDeleteConfirmation(e.target.value)}
+                autoComplete="off"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="delete-password">Current Password</Label>
+              <Input
+                id="delete-password"
+                type="password"
+                value={deletePassword}
+                onChange={(e) => setDeletePassword(e.target.value)}
+                autoComplete="current-password"
+              />
+            </div>
+            {deleteError && (
+              <div className="text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded p-2">
+                {deleteError}
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => closeDeleteDialog(false)}
+              disabled={isDeleting}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              onClick={confirmDelete}
+              disabled={!canDelete || isDeleting}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {isDeleting ? "Deleting..." : "Delete Account"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
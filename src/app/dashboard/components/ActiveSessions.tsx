@@ -0,0 +1,241 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { useToast } from "@/components/ui/toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { describeAuthError } from "@/lib/api/auth";
+import { sessionsApi } from "@/lib/api/sessions";
+import { ActiveSession } from "@/types/api";
+import { motion } from "framer-motion";
+import { Loader2, LogOut, Monitor, Smartphone } from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\//, "Opera"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const PLATFORMS: [RegExp, string][] = [
+  [/Android/, "Android"],
+  [/iPhone|iPad/, "iOS"],
+  [/Windows/, "Windows"],
+  [/Mac OS X/, "macOS"],
+  [/Linux/, "Linux"],
+];
+
+// "Chrome on macOS" style label; good enough to recognise your own devices
+const describeDevice = (userAgent?: string) => {
+  if (!userAgent) return "Unknown device";
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser || platform || "Unknown device";
+};
+
+const isMobile = (userAgent?: string) =>
+  !!userAgent && /Mobile|Android|iPhone|iPad/.test(userAgent);
+
+const formatDate = (value: string) =>
+  new Intl.DateTimeFormat("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(new Date(value));
+
+export default function ActiveSessions() {
+  const { signOutEverywhere } = useAuth();
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [confirmingAll, setConfirmingAll] = useState(false);
+  const { toast } = useToast();
+
+  const loadSessions = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await sessionsApi.list();
+      // Current device first, then most recently used
+      setSessions(
+        [...data].sort(
+          (a, b) =>
+            Number(b.current) - Number(a.current) ||
+            new Date(b.lastUsedAt).getTime() - new Date(a.lastUsedAt).getTime()
+        )
+      );
+    } catch (err) {
+      console.error("Failed to load sessions:", err);
+      setError("Unable to load your active sessions. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const revoke = async (session: ActiveSession) => {
+    try {
+      setRevokingId(session.id);
+      await sessionsApi.revoke(session.id);
+      setSessions((current) => current.filter((item) => item.id !== session.id));
+      toast({
+        title: "Session signed out",
+        description: `${describeDevice(session.userAgent)} will need to sign in again.`,
+        variant: "success",
+      });
+    } catch (err) {
+      toast({
+        title: "Sign out failed",
+        description: describeAuthError(err, "Unable to sign out that session."),
+        variant: "destructive",
+      });
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const revokeAll = async () => {
+    try {
+      // Ends this session too and redirects to /login
+      await signOutEverywhere();
+    } catch (err) {
+      toast({
+        title: "Sign out failed",
+        description: describeAuthError(err, "Unable to sign out everywhere."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5, delay: 0.1 }}
+    >
+      <Card className="border-border/30 bg-card/30">
+        <CardHeader className="pb-3">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <div>
+              <CardTitle className="text-xl">Active Sessions</CardTitle>
+              <CardDescription className="text-xs mt-1">
+                Devices currently signed in to your account
+              </CardDescription>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setConfirmingAll(true)}
+              disabled={isLoading || sessions.length === 0}
+              className="border-destructive/50 hover:bg-destructive/10 hover:border-destructive"
+            >
+              <LogOut className="mr-2 h-3.5 w-3.5" />
+              Sign Out Everywhere
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="pt-3">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8 text-sm text-muted-foreground">
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Loading sessions...
+            </div>
+          ) : error ? (
+            <div className="rounded border border-destructive/30 bg-destructive/10 p-3 text-sm text-destructive">
+              {error}
+            </div>
+          ) : (
+            <ul className="divide-y divide-border/30">
+              {sessions.map((session) => {
+                const DeviceIcon = isMobile(session.userAgent) ? Smartphone : Monitor;
+                return (
+                  <li
+                    key={session.id}
+                    className="flex items-center justify-between gap-4 py-3"
+                  >
+                    <div className="flex items-start gap-3 min-w-0">
+                      <DeviceIcon className="mt-0.5 h-5 w-5 shrink-0 text-muted-foreground" />
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium">
+                          {describeDevice(session.userAgent)}
+                          {session.current && (
+                            <span className="ml-2 rounded bg-accent/10 px-1.5 py-0.5 text-xs text-accent">
+                              This device
+                            </span>
+                          )}
+                        </p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {session.ipAddress ?? "Unknown IP"} · Last active{" "}
+                          {formatDate(session.lastUsedAt)}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          Signed in {formatDate(session.createdAt)}
+                        </p>
+                      </div>
+                    </div>
+                    {!session.current && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => revoke(session)}
+                        disabled={revokingId === session.id}
+                      >
+                        {revokingId === session.id ? "Signing out..." : "Sign Out"}
+                      </Button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={confirmingAll} onOpenChange={setConfirmingAll}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Sign out everywhere?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Every device, including this one, will be signed out and need
+              to sign in again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={revokeAll}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Sign Out Everywhere
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </motion.div>
+  );
+}
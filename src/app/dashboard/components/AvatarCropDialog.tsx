@@ -0,0 +1,205 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Loader2, ZoomIn } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import {
+  SquareCrop,
+  cropImageToSquare,
+  drawSquareCrop,
+  getSquareCropRect,
+  loadImageFromFile,
+} from "@/lib/image";
+
+const OUTPUT_SIZE = 512;
+const MAX_ZOOM = 3;
+
+const INITIAL_CROP: SquareCrop = { zoom: 1, offsetX: 0, offsetY: 0 };
+
+interface AvatarCropDialogProps {
+  file: File | null;
+  isUploading: boolean;
+  onCancel: () => void;
+  onConfirm: (blob: Blob) => void;
+}
+
+export default function AvatarCropDialog({
+  file,
+  isUploading,
+  onCancel,
+  onConfirm,
+}: AvatarCropDialogProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragStart = useRef<{ x: number; y: number; crop: SquareCrop } | null>(null);
+  const [loaded, setLoaded] = useState<{
+    file: File;
+    image: HTMLImageElement;
+  } | null>(null);
+  const [crop, setCrop] = useState<SquareCrop>(INITIAL_CROP);
+  const [error, setError] = useState<string | null>(null);
+
+  // Ignore an image decoded for a previously selected file
+  const image = loaded && loaded.file === file ? loaded.image : null;
+
+  useEffect(() => {
+    if (!file) return;
+    let cancelled = false;
+    loadImageFromFile(file)
+      .then((decoded) => {
+        if (cancelled) return;
+        setCrop(INITIAL_CROP);
+        setError(null);
+        setLoaded({ file, image: decoded });
+      })
+      .catch(() => {
+        if (!cancelled) setError("Unable to read this image.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  useEffect(() => {
+    if (image && canvasRef.current) {
+      drawSquareCrop(canvasRef.current, image, crop);
+    }
+  }, [image, crop]);
+
+  // Keep offsets within the bounds the current zoom allows so dragging
+  // past an edge doesn't accumulate invisible offset
+  const clampCrop = (next: SquareCrop): SquareCrop => {
+    if (!image) return next;
+    const rect = getSquareCropRect(image, next, OUTPUT_SIZE);
+    const minX = OUTPUT_SIZE - rect.width;
+    const minY = OUTPUT_SIZE - rect.height;
+    return {
+      zoom: next.zoom,
+      offsetX: rect.x - minX / 2,
+      offsetY: rect.y - minY / 2,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStart.current = { x: e.clientX, y: e.clientY, crop };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!dragStart.current) return;
+    const ratio = OUTPUT_SIZE / e.currentTarget.getBoundingClientRect().width;
+    const start = dragStart.current;
+    setCrop(
+      clampCrop({
+        zoom: start.crop.zoom,
+        offsetX: start.crop.offsetX + (e.clientX - start.x) * ratio,
+        offsetY: start.crop.offsetY + (e.clientY - start.y) * ratio,
+      })
+    );
+  };
+
+  const handlePointerUp = () => {
+    dragStart.current = null;
+  };
+
+  const handleZoomChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setCrop(clampCrop({ ...crop, zoom: Number(e.target.value) }));
+  };
+
+  const handleConfirm = async () => {
+    if (!image) return;
+    try {
+      const blob = await cropImageToSquare(image, crop, OUTPUT_SIZE);
+      onConfirm(blob);
+    } catch (err) {
+      console.error("Failed to crop image:", err);
+      setError("Unable to crop this image.");
+    }
+  };
+
+  return (
+    <Dialog
+      open={!!file}
+      onOpenChange={(open) => {
+        if (!open && !isUploading) onCancel();
+      }}
+    >
+      <DialogContent className="max-w-md">
+        <DialogHeader className="pb-2">
+          <DialogTitle className="text-lg">Crop Profile Picture</DialogTitle>
+          <DialogDescription className="text-xs">
+            Drag to reposition and use the slider to zoom
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-col items-center space-y-4">
+          {error ? (
+            <div className="w-full rounded border border-destructive/30 bg-destructive/10 p-3 text-sm text-destructive">
+              {error}
+            </div>
+          ) : (
+            <canvas
+              ref={canvasRef}
+              width={OUTPUT_SIZE}
+              height={OUTPUT_SIZE}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+              className="h-64 w-64 cursor-move touch-none rounded-full border-2 border-accent/50 bg-muted"
+            />
+          )}
+          <div className="flex w-full items-center gap-3">
+            <Label htmlFor="avatar-zoom" className="shrink-0">
+              <ZoomIn className="h-4 w-4" />
+              <span className="sr-only">Zoom</span>
+            </Label>
+            <input
+              id="avatar-zoom"
+              type="range"
+              min={1}
+              max={MAX_ZOOM}
+              step={0.01}
+              value={crop.zoom}
+              onChange={handleZoomChange}
+              disabled={!image || isUploading}
+              className="w-full accent-[var(--accent)]"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onCancel}
+            disabled={isUploading}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={handleConfirm}
+            disabled={!image || isUploading}
+            className="bg-primary text-primary-foreground hover:bg-primary/90"
+          >
+            {isUploading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Uploading...
+              </>
+            ) : (
+              "Save Picture"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
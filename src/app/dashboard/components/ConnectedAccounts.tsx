@@ -0,0 +1,183 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { useToast } from "@/components/ui/toast";
+import { OAUTH_PROVIDER_ICONS } from "@/components/OAuthButtons";
+import { authApi, describeAuthError } from "@/lib/api/auth";
+import {
+  OAUTH_LINKED,
+  OAUTH_LINK_IN_USE,
+  OAUTH_PROVIDERS,
+  OAUTH_PROVIDER_LABELS,
+  OAuthProvider,
+  isOAuthProvider,
+  oauthStartPath,
+} from "@/lib/auth/oauth";
+import { LinkedIdentity } from "@/types/api";
+import { Loader2 } from "lucide-react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { useCallback, useEffect, useRef, useState } from "react";
+
+export default function ConnectedAccounts() {
+  const [identities, setIdentities] = useState<LinkedIdentity[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [unlinking, setUnlinking] = useState<OAuthProvider | null>(null);
+  const { toast } = useToast();
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  // Strict Mode re-runs effects; report each outcome once
+  const reported = useRef(false);
+
+  const loadIdentities = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setIdentities(await authApi.listIdentities());
+    } catch (err) {
+      console.error("Failed to load linked accounts:", err);
+      setError("Unable to load your connected accounts. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadIdentities();
+  }, [loadIdentities]);
+
+  // The OAuth callback lands back here with `?oauth=<outcome>`
+  const outcome = searchParams.get("oauth");
+  const linkedProvider = searchParams.get("provider") ?? "";
+  useEffect(() => {
+    if (!outcome || reported.current) return;
+    reported.current = true;
+    const label = isOAuthProvider(linkedProvider)
+      ? OAUTH_PROVIDER_LABELS[linkedProvider]
+      : "The provider";
+
+    if (outcome === OAUTH_LINKED) {
+      toast({
+        title: `${label} connected`,
+        description: "You can now sign in with it.",
+        variant: "success",
+      });
+    } else {
+      toast({
+        title: "Couldn't connect account",
+        description:
+          outcome === OAUTH_LINK_IN_USE
+            ? `That ${label} account is already linked to another user.`
+            : "Linking was cancelled or failed. Please try again.",
+        variant: "destructive",
+      });
+    }
+
+    const params = new URLSearchParams(searchParams.toString());
+    params.delete("oauth");
+    params.delete("provider");
+    router.replace(`${pathname}?${params.toString()}`);
+  }, [outcome, linkedProvider, searchParams, pathname, router, toast]);
+
+  const unlink = async (provider: OAuthProvider) => {
+    try {
+      setUnlinking(provider);
+      await authApi.unlinkIdentity(provider);
+      setIdentities((current) =>
+        current.filter((identity) => identity.provider !== provider)
+      );
+      toast({
+        title: `${OAUTH_PROVIDER_LABELS[provider]} disconnected`,
+        variant: "success",
+      });
+    } catch (err) {
+      toast({
+        title: "Couldn't disconnect account",
+        // e.g. it is the only way left to sign in
+        description: describeAuthError(err, "Please try again."),
+        variant: "destructive",
+      });
+    } finally {
+      setUnlinking(null);
+    }
+  };
+
+  return (
+    <Card className="border-border/30 bg-card/30">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-xl">Connected Accounts</CardTitle>
+        <CardDescription className="text-xs mt-1">
+          Sign in with these providers as well as your password
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-3">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6 text-sm text-muted-foreground">
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Loading connected accounts...
+          </div>
+        ) : error ? (
+          <div className="rounded border border-destructive/30 bg-destructive/10 p-3 text-sm text-destructive">
+            {error}
+          </div>
+        ) : (
+          <ul className="divide-y divide-border/30">
+            {OAUTH_PROVIDERS.map((provider) => {
+              const Icon = OAUTH_PROVIDER_ICONS[provider];
+              const identity = identities.find(
+                (item) => item.provider === provider
+              );
+              return (
+                <li
+                  key={provider}
+                  className="flex items-center justify-between gap-4 py-3"
+                >
+                  <div className="flex items-center gap-3 min-w-0">
+                    <Icon className="h-5 w-5 shrink-0" />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium">
+                        {OAUTH_PROVIDER_LABELS[provider]}
+                      </p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {identity
+                          ? identity.username || identity.email || "Connected"
+                          : "Not connected"}
+                      </p>
+                    </div>
+                  </div>
+                  {identity ? (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => unlink(provider)}
+                      disabled={unlinking === provider}
+                    >
+                      {unlinking === provider ? "Disconnecting..." : "Disconnect"}
+                    </Button>
+                  ) : (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="border-accent/50 hover:bg-accent/10 hover:border-accent"
+                      asChild
+                    >
+                      <a href={oauthStartPath(provider, { link: true })}>Connect</a>
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
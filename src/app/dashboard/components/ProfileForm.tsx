@@ -20,12 +20,24 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { motion } from "framer-motion";
-import { Upload, User as UserIcon } from "lucide-react";
-import { Profile } from "@/types/portfolio";
+import { Loader2, Trash2, Upload, User as UserIcon } from "lucide-react";
+import { Profile } from "@/types/api";
+import { profilesApi } from "@/lib/api/profiles";
+import {
+  NotFoundError,
+  applyFieldErrors,
+  describeApiError,
+} from "@/lib/api/errors";
+import { setQueryData } from "@/lib/api/queryCache";
+import { useAuth } from "@/contexts/AuthContext";
+import { useAuthorization } from "@/hooks/useAuthorization";
+import { useQuery } from "@/hooks/useQuery";
+import { useToast } from "@/components/ui/toast";
+import AvatarCropDialog from "./AvatarCropDialog";
 
 const profileSchema = z.object({
   name: z.string().min(2, "Name must be at least 2 characters"),
@@ -42,55 +54,219 @@ const profileSchema = z.object({
 
 type ProfileFormValues = z.infer<typeof profileSchema>;
 
-const initialProfile: Profile = {
-  name: "John Doe",
-  role: "Full Stack Developer",
-  bio: "Passionate developer building amazing web experiences",
-  email: "john@example.com",
-  phone: "+1 (555) 123-4567",
-  location: "San Francisco, CA",
-  website: "https://johndoe.dev",
-  github: "https://github.com/johndoe",
-  linkedin: "https://linkedin.com/in/johndoe",
-  twitter: "https://twitter.com/johndoe",
-};
+const ACCEPTED_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp"];
+const MAX_IMAGE_SIZE = 5 * 1024 * 1024; // 5MB in bytes
+
+const toFormValues = (profile: Profile | null): ProfileFormValues => ({
+  name: profile?.name || "",
+  role: profile?.role || "",
+  bio: profile?.bio || "",
+  email: profile?.email || "",
+  phone: profile?.phone || "",
+  location: profile?.location || "",
+  website: profile?.website || "",
+  github: profile?.github || "",
+  linkedin: profile?.linkedin || "",
+  twitter: profile?.twitter || "",
+});
 
 export default function ProfileForm() {
-  const [profile, setProfile] = useState<Profile>(initialProfile);
-  const [profilePicture, setProfilePicture] = useState<string | undefined>(
-    profile.profilePicture
-  );
+  const [pendingImage, setPendingImage] = useState<File | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { can } = useAuthorization();
+  const canEdit = can("content:write");
+
+  const userId = user?.id ? Number(user.id) : null;
 
   const form = useForm<ProfileFormValues>({
     resolver: zodResolver(profileSchema),
-    defaultValues: {
-      name: profile.name,
-      role: profile.role,
-      bio: profile.bio,
-      email: profile.email,
-      phone: profile.phone || "",
-      location: profile.location || "",
-      website: profile.website || "",
-      github: profile.github || "",
-      linkedin: profile.linkedin || "",
-      twitter: profile.twitter || "",
-    },
+    defaultValues: toFormValues(null),
   });
+  const {
+    reset,
+    formState: { isDirty },
+  } = form;
+
+  const profileKey = ["profile", userId];
+
+  const {
+    data: cachedProfile,
+    error: loadError,
+    isLoading,
+  } = useQuery(
+    profileKey,
+    async () => {
+      try {
+        return await profilesApi.getByUserId(userId as number);
+      } catch (err) {
+        // A missing profile just means the user has not saved one yet
+        if (err instanceof NotFoundError) return null;
+        console.error("Failed to load profile:", err);
+        throw err;
+      }
+    },
+    { enabled: !!userId && !Number.isNaN(userId) }
+  );
+
+  const profile = cachedProfile ?? null;
+  // A failed background refetch keeps showing the cached profile
+  const error =
+    loadError && cachedProfile === undefined
+      ? "Unable to load profile. Please try again."
+      : null;
+
+  const setProfile = (next: Profile) =>
+    setQueryData<Profile | null>(profileKey, () => next);
 
-  const onSubmit = (data: ProfileFormValues) => {
-    setProfile({ ...data, profilePicture });
-    console.log("Profile updated:", { ...data, profilePicture });
-    // Mock API call
+  // Fill the form from the cache, including after a background refetch,
+  // unless the user has started editing
+  useEffect(() => {
+    if (cachedProfile === undefined || isDirty) return;
+    reset(
+      cachedProfile
+        ? toFormValues(cachedProfile)
+        : { ...toFormValues(null), email: user?.email || "", name: user?.name || "" }
+    );
+  }, [cachedProfile, isDirty, reset, user?.email, user?.name]);
+
+  const onSubmit = async (data: ProfileFormValues) => {
+    if (!userId || Number.isNaN(userId)) {
+      toast({
+        title: "Missing user",
+        description: "Unable to detect user ID for profile requests.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const payload = {
+      userId,
+      name: data.name,
+      role: data.role,
+      bio: data.bio,
+      email: data.email,
+      phone: data.phone || undefined,
+      location: data.location || undefined,
+      website: data.website || undefined,
+      github: data.github || undefined,
+      linkedin: data.linkedin || undefined,
+      twitter: data.twitter || undefined,
+      profilePicture: profile?.profilePicture,
+    };
+
+    try {
+      setIsSaving(true);
+      const updated = await profilesApi.update(userId, payload);
+      setProfile(updated);
+      reset(toFormValues(updated));
+      toast({
+        title: "Profile updated",
+        description: "Your profile was saved successfully.",
+        variant: "success",
+      });
+    } catch (err) {
+      console.error("Failed to save profile:", err);
+      if (applyFieldErrors(err, form)) {
+        return;
+      }
+      toast({
+        title: "Save failed",
+        description: describeApiError(err, "Unable to save profile. Please try again."),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
   };
 
-  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleImageSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setProfilePicture(reader.result as string);
-      };
-      reader.readAsDataURL(file);
+    // Reset input so selecting the same file again re-triggers the dialog
+    e.target.value = "";
+    if (!file) return;
+
+    if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+      toast({
+        title: "Invalid file type",
+        description: "Please upload a JPG, PNG, or WebP image.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (file.size > MAX_IMAGE_SIZE) {
+      toast({
+        title: "File too large",
+        description: "Image size must be less than 5MB.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setPendingImage(file);
+  };
+
+  const handleCropConfirm = async (blob: Blob) => {
+    if (!userId || Number.isNaN(userId)) {
+      toast({
+        title: "Missing user",
+        description: "Unable to detect user ID for profile requests.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setIsUploading(true);
+      const formData = new FormData();
+      formData.append("file", blob, "avatar.jpg");
+      const updated = await profilesApi.uploadPicture(userId, formData);
+      setProfile(updated);
+      setPendingImage(null);
+      toast({
+        title: "Picture updated",
+        description: "Your profile picture was uploaded successfully.",
+        variant: "success",
+      });
+    } catch (err) {
+      console.error("Failed to upload profile picture:", err);
+      toast({
+        title: "Upload failed",
+        description: describeApiError(
+          err,
+          "An error occurred while uploading the picture."
+        ),
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleRemovePicture = async () => {
+    if (!userId || Number.isNaN(userId)) return;
+
+    try {
+      setIsUploading(true);
+      const updated = await profilesApi.removePicture(userId);
+      setProfile(updated);
+      toast({
+        title: "Picture removed",
+        description: "Your profile picture has been removed.",
+        variant: "success",
+      });
+    } catch (err) {
+      console.error("Failed to remove profile picture:", err);
+      toast({
+        title: "Remove failed",
+        description: describeApiError(err, "Unable to remove the profile picture."),
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploading(false);
     }
   };
 
@@ -108,30 +284,58 @@ export default function ProfileForm() {
           </CardHeader>
           <CardContent className="flex flex-col items-center space-y-3 pt-3">
             <Avatar className="h-32 w-32 border-2 border-accent/50">
-              <AvatarImage src={profilePicture} alt={profile.name} />
+              <AvatarImage src={profile?.profilePicture} alt={profile?.name || "Profile picture"} />
               <AvatarFallback className="text-2xl">
                 <UserIcon className="h-12 w-12" />
               </AvatarFallback>
             </Avatar>
-            <label htmlFor="profile-upload">
-              <Button
-                variant="outline"
-                className="cursor-pointer border-accent/50 hover:bg-accent/10 hover:border-accent"
-                asChild
-              >
-                <span>
-                  <Upload className="mr-2 h-4 w-4" />
-                  Upload Picture
-                </span>
-              </Button>
-              <input
-                id="profile-upload"
-                type="file"
-                accept="image/*"
-                className="hidden"
-                onChange={handleImageUpload}
-              />
-            </label>
+            {canEdit && (
+              <div className="flex flex-wrap justify-center gap-2">
+                <label htmlFor="profile-upload">
+                  <Button
+                    variant="outline"
+                    className="cursor-pointer border-accent/50 hover:bg-accent/10 hover:border-accent"
+                    disabled={isUploading}
+                    asChild
+                  >
+                    <span>
+                      <Upload className="mr-2 h-4 w-4" />
+                      {profile?.profilePicture ? "Replace Picture" : "Upload Picture"}
+                    </span>
+                  </Button>
+                  <input
+                    id="profile-upload"
+                    type="file"
+                    accept={ACCEPTED_IMAGE_TYPES.join(",")}
+                    className="hidden"
+                    onChange={handleImageSelect}
+                    disabled={isUploading}
+                  />
+                </label>
+                {profile?.profilePicture && (
+                  <Button
+                    variant="outline"
+                    onClick={handleRemovePicture}
+                    disabled={isUploading}
+                    className="border-destructive/50 hover:bg-destructive/10 hover:border-destructive"
+                  >
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Remove
+                  </Button>
+                )}
+              </div>
+            )}
+            {canEdit && (
+              <p className="text-xs text-muted-foreground">
+                JPG, PNG, or WebP up to 5MB
+              </p>
+            )}
+            <AvatarCropDialog
+              file={pendingImage}
+              isUploading={isUploading}
+              onCancel={() => setPendingImage(null)}
+              onConfirm={handleCropConfirm}
+            />
           </CardContent>
         </Card>
       </motion.div>
@@ -147,164 +351,188 @@ export default function ProfileForm() {
             <CardDescription className="text-xs">Update your profile details</CardDescription>
           </CardHeader>
           <CardContent className="pt-3">
-            <Form {...form}>
-              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-3">
-                <div className="grid gap-4 md:grid-cols-2">
-                  <FormField
-                    control={form.control}
-                    name="name"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Full Name</FormLabel>
-                        <FormControl>
-                          <Input {...field} placeholder="John Doe" />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <FormField
-                    control={form.control}
-                    name="role"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Role / Title</FormLabel>
-                        <FormControl>
-                          <Input {...field} placeholder="Full Stack Developer" />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                </div>
-
-                <FormField
-                  control={form.control}
-                  name="bio"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Bio</FormLabel>
-                      <FormControl>
-                        <Textarea
-                          {...field}
-                          placeholder="Tell us about yourself..."
-                          rows={4}
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-
-                <div className="grid gap-4 md:grid-cols-2">
-                  <FormField
-                    control={form.control}
-                    name="email"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Email</FormLabel>
-                        <FormControl>
-                          <Input {...field} type="email" placeholder="you@example.com" />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <FormField
-                    control={form.control}
-                    name="phone"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Phone</FormLabel>
-                        <FormControl>
-                          <Input {...field} placeholder="+1 (555) 123-4567" />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                </div>
-
-                <FormField
-                  control={form.control}
-                  name="location"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Location</FormLabel>
-                      <FormControl>
-                        <Input {...field} placeholder="San Francisco, CA" />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-
-                <div className="space-y-2">
-                  <FormLabel>Social Links</FormLabel>
-                  <div className="grid gap-4 md:grid-cols-2">
-                    <FormField
-                      control={form.control}
-                      name="website"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Website</FormLabel>
-                          <FormControl>
-                            <Input {...field} placeholder="https://yourwebsite.com" />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={form.control}
-                      name="github"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>GitHub</FormLabel>
-                          <FormControl>
-                            <Input {...field} placeholder="https://github.com/username" />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
+            {error && (
+              <div className="mb-3 rounded border border-destructive/30 bg-destructive/10 p-3 text-sm text-destructive">
+                {error}
+              </div>
+            )}
+            {isLoading ? (
+              <div className="flex items-center justify-center py-12 text-sm text-muted-foreground">
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Loading profile...
+              </div>
+            ) : (
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)}>
+                  {/* Viewers get a read-only copy of the form */}
+                  <fieldset disabled={!canEdit} className="space-y-3">
+                    <div className="grid gap-4 md:grid-cols-2">
+                      <FormField
+                        control={form.control}
+                        name="name"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Full Name</FormLabel>
+                            <FormControl>
+                              <Input {...field} placeholder="John Doe" />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="role"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Role / Title</FormLabel>
+                            <FormControl>
+                              <Input {...field} placeholder="Full Stack Developer" />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+
                     <FormField
                       control={form.control}
-                      name="linkedin"
+                      name="bio"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>LinkedIn</FormLabel>
+                          <FormLabel>Bio</FormLabel>
                           <FormControl>
-                            <Input {...field} placeholder="https://linkedin.com/in/username" />
+                            <Textarea
+                              {...field}
+                              placeholder="Tell us about yourself..."
+                              rows={4}
+                            />
                           </FormControl>
                           <FormMessage />
                         </FormItem>
                       )}
                     />
+
+                    <div className="grid gap-4 md:grid-cols-2">
+                      <FormField
+                        control={form.control}
+                        name="email"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Email</FormLabel>
+                            <FormControl>
+                              <Input {...field} type="email" placeholder="you@example.com" />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="phone"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Phone</FormLabel>
+                            <FormControl>
+                              <Input {...field} placeholder="+1 (555) 123-4567" />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+
                     <FormField
                       control={form.control}
-                      name="twitter"
+                      name="location"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>Twitter</FormLabel>
+                          <FormLabel>Location</FormLabel>
                           <FormControl>
-                            <Input {...field} placeholder="https://twitter.com/username" />
+                            <Input {...field} placeholder="San Francisco, CA" />
                           </FormControl>
                           <FormMessage />
                         </FormItem>
                       )}
                     />
-                  </div>
-                </div>
-
-                <Button
-                  type="submit"
-                  className="w-full bg-primary text-primary-foreground hover:bg-primary/90"
-                >
-                  Save Changes
-                </Button>
-              </form>
-            </Form>
+
+                    <div className="space-y-2">
+                      <FormLabel>Social Links</FormLabel>
+                      <div className="grid gap-4 md:grid-cols-2">
+                        <FormField
+                          control={form.control}
+                          name="website"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Website</FormLabel>
+                              <FormControl>
+                                <Input {...field} placeholder="https://yourwebsite.com" />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name="github"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>GitHub</FormLabel>
+                              <FormControl>
+                                <Input {...field} placeholder="https://github.com/username" />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name="linkedin"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>LinkedIn</FormLabel>
+                              <FormControl>
+                                <Input {...field} placeholder="https://linkedin.com/in/username" />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name="twitter"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Twitter</FormLabel>
+                              <FormControl>
+                                <Input {...field} placeholder="https://twitter.com/username" />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+                    </div>
+
+                    {form.formState.errors.root?.server && (
+                      <div className="text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded p-2">
+                        {form.formState.errors.root.server.message}
+                      </div>
+                    )}
+
+                    {canEdit && (
+                      <Button
+                        type="submit"
+                        disabled={isSaving}
+                        className="w-full bg-primary text-primary-foreground hover:bg-primary/90"
+                      >
+                        {isSaving ? "Saving..." : "Save Changes"}
+                      </Button>
+                    )}
+                  </fieldset>
+                </form>
+              </Form>
+            )}
           </CardContent>
         </Card>
       </motion.div>
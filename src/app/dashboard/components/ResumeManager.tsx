@@ -20,7 +20,7 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
-import { useState, useEffect, useCallback } from "react";
+import { useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import {
   Upload,
@@ -32,42 +32,57 @@ import {
   Calendar,
 } from "lucide-react";
 import { useToast } from "@/components/ui/toast";
+import { setQueryData } from "@/lib/api/queryCache";
 import { resumesApi } from "@/lib/api/resumes";
 import { Resume } from "@/types/api";
 import { useAuth } from "@/contexts/AuthContext";
+import { useAuthorization } from "@/hooks/useAuthorization";
+import { useQuery } from "@/hooks/useQuery";
 
 export default function ResumeManager() {
-  const [resume, setResume] = useState<Resume | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   const [isDownloading, setIsDownloading] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const { toast } = useToast();
+  const { toast, promise } = useToast();
+  const { can } = useAuthorization();
+  const canEdit = can("content:write");
   const { user } = useAuth();
 
   const userId = user?.id ? Number(user.id) : null;
 
-  const fetchResume = useCallback(async () => {
-    if (!userId || Number.isNaN(userId)) {
-      return;
-    }
-    try {
-      setIsLoading(true);
-      setError(null);
-      const response = await resumesApi.list({ page: 0, size: 1, userId });
-      setResume(response.content[0] ?? null);
-    } catch (err) {
-      console.error("Failed to load resume:", err);
-      setError("Unable to load resume. Please try again.");
-    } finally {
-      setIsLoading(false);
-    }
-  }, [userId]);
+  const resumeKey = ["resume", userId];
 
-  useEffect(() => {
-    fetchResume();
-  }, [fetchResume]);
+  const {
+    data: cachedResume,
+    error: loadError,
+    isLoading,
+  } = useQuery(
+    resumeKey,
+    async () => {
+      try {
+        const response = await resumesApi.list({
+          page: 0,
+          size: 1,
+          userId: userId as number,
+        });
+        return response.content[0] ?? null;
+      } catch (err) {
+        console.error("Failed to load resume:", err);
+        throw err;
+      }
+    },
+    { enabled: !!userId && !Number.isNaN(userId) }
+  );
+
+  const resume = cachedResume ?? null;
+  // A failed background refetch keeps showing the cached resume
+  const error =
+    loadError && cachedResume === undefined
+      ? "Unable to load resume. Please try again."
+      : null;
+
+  const setResume = (next: Resume | null) =>
+    setQueryData<Resume | null>(resumeKey, () => next);
 
   const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -110,20 +125,32 @@ export default function ResumeManager() {
       const formData = new FormData();
       formData.append("file", file);
       formData.append("userId", String(userId));
-      const uploaded = await resumesApi.upload(formData);
-      setResume(uploaded);
-      toast({
-        title: "Resume uploaded successfully",
-        description: `${file.name} has been uploaded.`,
-        variant: "success",
+      const uploaded = await promise(resumesApi.upload(formData), {
+        loading: {
+          title: "Uploading resume",
+          description: `${file.name} is being uploaded.`,
+        },
+        success: (result) => ({
+          title: "Resume uploaded successfully",
+          description: `${file.name} has been uploaded.`,
+          actions: result.filePath
+            ? [
+                {
+                  label: "View",
+                  onClick: () =>
+                    window.open(result.filePath, "_blank", "noopener,noreferrer"),
+                },
+              ]
+            : undefined,
+        }),
+        error: {
+          title: "Upload failed",
+          description: "An error occurred while uploading the resume.",
+        },
       });
+      setResume(uploaded);
     } catch (error) {
       console.error("Upload failed:", error);
-      toast({
-        title: "Upload failed",
-        description: "An error occurred while uploading the resume.",
-        variant: "destructive",
-      });
     } finally {
       setIsUploading(false);
     }
@@ -254,35 +281,37 @@ export default function ResumeManager() {
                   <p className="text-muted-foreground mb-6">
                     Upload a PDF, DOC, or DOCX file to get started (max 10MB)
                   </p>
-                  <label htmlFor="resume-upload">
-                    <Button
-                      className="bg-primary text-primary-foreground hover:bg-primary/90 cursor-pointer"
-                      disabled={isUploading}
-                      asChild
-                    >
-                      <span>
-                        {isUploading ? (
-                          <>
-                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                            Uploading...
-                          </>
-                        ) : (
-                          <>
-                            <Upload className="mr-2 h-4 w-4" />
-                            Upload Resume
-                          </>
-                        )}
-                      </span>
-                    </Button>
-                    <Input
-                      id="resume-upload"
-                      type="file"
-                      accept=".pdf,.doc,.docx"
-                      className="hidden"
-                      onChange={handleUpload}
-                      disabled={isUploading}
-                    />
-                  </label>
+                  {canEdit && (
+                    <label htmlFor="resume-upload">
+                      <Button
+                        className="bg-primary text-primary-foreground hover:bg-primary/90 cursor-pointer"
+                        disabled={isUploading}
+                        asChild
+                      >
+                        <span>
+                          {isUploading ? (
+                            <>
+                              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                              Uploading...
+                            </>
+                          ) : (
+                            <>
+                              <Upload className="mr-2 h-4 w-4" />
+                              Upload Resume
+                            </>
+                          )}
+                        </span>
+                      </Button>
+                      <Input
+                        id="resume-upload"
+                        type="file"
+                        accept=".pdf,.doc,.docx"
+                        className="hidden"
+                        onChange={handleUpload}
+                        disabled={isUploading}
+                      />
+                    </label>
+                  )}
                 </motion.div>
               ) : (
                 <motion.div
@@ -338,93 +367,97 @@ export default function ResumeManager() {
                           </>
                         )}
                       </Button>
-                      <AlertDialog>
-                        <AlertDialogTrigger asChild>
-                          <Button
-                            variant="outline"
-                            disabled={isDeleting}
-                            className="border-destructive/50 hover:bg-destructive/10 hover:border-destructive flex-1 sm:flex-initial"
-                          >
-                            {isDeleting ? (
+                      {canEdit && (
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button
+                              variant="outline"
+                              disabled={isDeleting}
+                              className="border-destructive/50 hover:bg-destructive/10 hover:border-destructive flex-1 sm:flex-initial"
+                            >
+                              {isDeleting ? (
+                                <>
+                                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                  Deleting...
+                                </>
+                              ) : (
+                                <>
+                                  <Trash2 className="mr-2 h-4 w-4" />
+                                  Delete
+                                </>
+                              )}
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Delete Resume?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                Are you sure you want to delete &quot;{resume.fileName}&quot;?
+                                This action cannot be undone and you will need to
+                                upload a new resume.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction
+                                onClick={handleDelete}
+                                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                              >
+                                Delete Resume
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      )}
+                    </div>
+                  </div>
+
+                  {canEdit && (
+                    <motion.div
+                      initial={{ opacity: 0, scale: 0.98 }}
+                      animate={{ opacity: 1, scale: 1 }}
+                      transition={{ duration: 0.2 }}
+                      className="border-2 border-dashed border-border/50 rounded-lg p-8 text-center hover:border-accent/50 transition-colors"
+                    >
+                      <Upload className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+                      <h3 className="text-lg font-semibold mb-2">
+                        Replace Resume
+                      </h3>
+                      <p className="text-muted-foreground mb-4">
+                        Upload a new file to replace the current resume
+                      </p>
+                      <label htmlFor="resume-replace">
+                        <Button
+                          variant="outline"
+                          className="border-accent/50 hover:bg-accent/10 hover:border-accent cursor-pointer"
+                          disabled={isUploading}
+                          asChild
+                        >
+                          <span>
+                            {isUploading ? (
                               <>
                                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                                Deleting...
+                                Uploading...
                               </>
                             ) : (
                               <>
-                                <Trash2 className="mr-2 h-4 w-4" />
-                                Delete
+                                <Upload className="mr-2 h-4 w-4" />
+                                Replace File
                               </>
                             )}
-                          </Button>
-                        </AlertDialogTrigger>
-                        <AlertDialogContent>
-                          <AlertDialogHeader>
-                            <AlertDialogTitle>Delete Resume?</AlertDialogTitle>
-                            <AlertDialogDescription>
-                              Are you sure you want to delete &quot;{resume.fileName}&quot;?
-                              This action cannot be undone and you will need to
-                              upload a new resume.
-                            </AlertDialogDescription>
-                          </AlertDialogHeader>
-                          <AlertDialogFooter>
-                            <AlertDialogCancel>Cancel</AlertDialogCancel>
-                            <AlertDialogAction
-                              onClick={handleDelete}
-                              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                            >
-                              Delete Resume
-                            </AlertDialogAction>
-                          </AlertDialogFooter>
-                        </AlertDialogContent>
-                      </AlertDialog>
-                    </div>
-                  </div>
-
-                  <motion.div
-                    initial={{ opacity: 0, scale: 0.98 }}
-                    animate={{ opacity: 1, scale: 1 }}
-                    transition={{ duration: 0.2 }}
-                    className="border-2 border-dashed border-border/50 rounded-lg p-8 text-center hover:border-accent/50 transition-colors"
-                  >
-                    <Upload className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
-                    <h3 className="text-lg font-semibold mb-2">
-                      Replace Resume
-                    </h3>
-                    <p className="text-muted-foreground mb-4">
-                      Upload a new file to replace the current resume
-                    </p>
-                    <label htmlFor="resume-replace">
-                      <Button
-                        variant="outline"
-                        className="border-accent/50 hover:bg-accent/10 hover:border-accent cursor-pointer"
-                        disabled={isUploading}
-                        asChild
-                      >
-                        <span>
-                          {isUploading ? (
-                            <>
-                              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                              Uploading...
-                            </>
-                          ) : (
-                            <>
-                              <Upload className="mr-2 h-4 w-4" />
-                              Replace File
-                            </>
-                          )}
-                        </span>
-                      </Button>
-                      <Input
-                        id="resume-replace"
-                        type="file"
-                        accept=".pdf,.doc,.docx"
-                        className="hidden"
-                        onChange={handleUpload}
-                        disabled={isUploading}
-                      />
-                    </label>
-                  </motion.div>
+                          </span>
+                        </Button>
+                        <Input
+                          id="resume-replace"
+                          type="file"
+                          accept=".pdf,.doc,.docx"
+                          className="hidden"
+                          onChange={handleUpload}
+                          disabled={isUploading}
+                        />
+                      </label>
+                    </motion.div>
+                  )}
                 </motion.div>
               )}
             </AnimatePresence>
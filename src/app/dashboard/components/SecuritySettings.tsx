@@ -0,0 +1,338 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/components/ui/toast";
+import { describeAuthError } from "@/lib/api/auth";
+import { mfaApi } from "@/lib/api/mfa";
+import { MfaSetup, MfaStatus } from "@/types/api";
+import { motion } from "framer-motion";
+import { Copy, Download, Loader2, ShieldCheck, ShieldOff } from "lucide-react";
+import { QRCodeSVG } from "qrcode.react";
+import { useCallback, useEffect, useState } from "react";
+import ActiveSessions from "./ActiveSessions";
+
+// Which action the code input is currently confirming
+type PendingAction = "enable" | "disable" | "regenerate" | null;
+
+const CODE_PATTERN = /^\d{6}$/;
+
+export default function SecuritySettings() {
+  const [status, setStatus] = useState<MfaStatus | null>(null);
+  const [setup, setSetup] = useState<MfaSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [pendingAction, setPendingAction] = useState<PendingAction>(null);
+  const [code, setCode] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const loadStatus = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setStatus(await mfaApi.getStatus());
+    } catch (err) {
+      console.error("Failed to load 2FA status:", err);
+      setError("Unable to load two-factor settings. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const resetCodeInput = () => {
+    setPendingAction(null);
+    setCode("");
+    setError(null);
+  };
+
+  const startSetup = async () => {
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      setRecoveryCodes(null);
+      setSetup(await mfaApi.setup());
+      setPendingAction("enable");
+    } catch (err) {
+      setError(describeAuthError(err, "Unable to start two-factor setup."));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const cancel = () => {
+    setSetup(null);
+    resetCodeInput();
+  };
+
+  const confirm = async () => {
+    if (!CODE_PATTERN.test(code)) {
+      setError("Enter the 6-digit code from your authenticator app.");
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      if (pendingAction === "enable") {
+        const { recoveryCodes: codes } = await mfaApi.enable(code);
+        setRecoveryCodes(codes);
+        setSetup(null);
+        setStatus({ enabled: true, recoveryCodesRemaining: codes.length });
+        toast({
+          title: "Two-factor authentication enabled",
+          description: "Save your recovery codes somewhere safe.",
+          variant: "success",
+        });
+      } else if (pendingAction === "disable") {
+        await mfaApi.disable(code);
+        setRecoveryCodes(null);
+        setStatus({ enabled: false });
+        toast({
+          title: "Two-factor authentication disabled",
+          description: "Your account is protected by your password only.",
+          variant: "success",
+        });
+      } else if (pendingAction === "regenerate") {
+        const { recoveryCodes: codes } = await mfaApi.regenerateRecoveryCodes(code);
+        setRecoveryCodes(codes);
+        setStatus({ enabled: true, recoveryCodesRemaining: codes.length });
+        toast({
+          title: "Recovery codes regenerated",
+          description: "Your previous recovery codes no longer work.",
+          variant: "success",
+        });
+      }
+      resetCodeInput();
+    } catch (err) {
+      setError(describeAuthError(err, "Invalid or expired code. Please try again."));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const copyCodes = async () => {
+    if (!recoveryCodes) return;
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join("\n"));
+      toast({ title: "Recovery codes copied", variant: "success" });
+    } catch {
+      toast({
+        title: "Copy failed",
+        description: "Select the codes and copy them manually.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const downloadCodes = () => {
+    if (!recoveryCodes) return;
+    const blob = new Blob([`${recoveryCodes.join("\n")}\n`], {
+      type: "text/plain",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "recovery-codes.txt";
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const confirmLabel =
+    pendingAction === "enable"
+      ? "Enable 2FA"
+      : pendingAction === "disable"
+        ? "Disable 2FA"
+        : "Regenerate Codes";
+
+  return (
+    <div className="space-y-4">
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+      >
+        <Card className="border-border/30 bg-card/30">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-xl">Two-Factor Authentication</CardTitle>
+            <CardDescription className="text-xs mt-1">
+              Require a code from an authenticator app when signing in
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="pt-3 space-y-4">
+            {isLoading || !status ? (
+              <div className="flex items-center justify-center py-8 text-sm text-muted-foreground">
+                {isLoading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Loading two-factor settings...
+                  </>
+                ) : (
+                  error
+                )}
+              </div>
+            ) : (
+              <>
+                <div className="flex items-center justify-between gap-4 rounded border border-border/30 p-3">
+                  <div className="flex items-center gap-3">
+                    {status.enabled ? (
+                      <ShieldCheck className="h-5 w-5 text-accent" />
+                    ) : (
+                      <ShieldOff className="h-5 w-5 text-muted-foreground" />
+                    )}
+                    <div>
+                      <p className="text-sm font-medium">
+                        {status.enabled ? "Enabled" : "Disabled"}
+                      </p>
+                      {status.enabled &&
+                        status.recoveryCodesRemaining !== undefined && (
+                          <p className="text-xs text-muted-foreground">
+                            {status.recoveryCodesRemaining} recovery codes left
+                          </p>
+                        )}
+                    </div>
+                  </div>
+                  {!pendingAction &&
+                    (status.enabled ? (
+                      <div className="flex gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setPendingAction("regenerate")}
+                        >
+                          New Recovery Codes
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setPendingAction("disable")}
+                          className="border-destructive/50 hover:bg-destructive/10 hover:border-destructive"
+                        >
+                          Disable
+                        </Button>
+                      </div>
+                    ) : (
+                      <Button
+                        size="sm"
+                        onClick={startSetup}
+                        disabled={isSubmitting}
+                        className="bg-primary text-primary-foreground hover:bg-primary/90"
+                      >
+                        Set Up 2FA
+                      </Button>
+                    ))}
+                </div>
+
+                {setup && (
+                  <div className="flex flex-col sm:flex-row gap-4 items-center sm:items-start">
+                    <div className="rounded bg-white p-3">
+                      <QRCodeSVG value={setup.otpauthUri} size={160} />
+                    </div>
+                    <div className="space-y-2 text-sm">
+                      <p>
+                        Scan this QR code with an authenticator app such as
+                        Google Authenticator, 1Password or Authy.
+                      </p>
+                      <p className="text-muted-foreground">
+                        Can&apos;t scan it? Enter this key manually:
+                      </p>
+                      <code className="block break-all rounded bg-muted/30 px-2 py-1 font-mono text-xs">
+                        {setup.secret}
+                      </code>
+                    </div>
+                  </div>
+                )}
+
+                {pendingAction && (
+                  <div className="space-y-2">
+                    <Label htmlFor="mfa-code">
+                      Enter the 6-digit code from your authenticator app
+                    </Label>
+                    <div className="flex gap-2">
+                      <Input
+                        id="mfa-code"
+                        value={code}
+                        onChange={(e) => setCode(e.target.value.trim())}
+                        inputMode="numeric"
+                        autoComplete="one-time-code"
+                        placeholder="123456"
+                        className="max-w-[160px] font-mono tracking-widest"
+                      />
+                      <Button
+                        onClick={confirm}
+                        disabled={isSubmitting}
+                        className="bg-primary text-primary-foreground hover:bg-primary/90"
+                      >
+                        {isSubmitting ? "Verifying..." : confirmLabel}
+                      </Button>
+                      <Button variant="outline" onClick={cancel} disabled={isSubmitting}>
+                        Cancel
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
+                {error && (
+                  <div className="rounded border border-destructive/30 bg-destructive/10 p-3 text-sm text-destructive">
+                    {error}
+                  </div>
+                )}
+
+                {recoveryCodes && (
+                  <div className="space-y-3 rounded border border-accent/30 bg-accent/5 p-4">
+                    <div>
+                      <p className="text-sm font-medium">Recovery codes</p>
+                      <p className="text-xs text-muted-foreground">
+                        Each code signs you in once if you lose access to your
+                        authenticator. They won&apos;t be shown again.
+                      </p>
+                    </div>
+                    <ul className="grid grid-cols-2 gap-2 font-mono text-sm">
+                      {recoveryCodes.map((recoveryCode) => (
+                        <li key={recoveryCode}>{recoveryCode}</li>
+                      ))}
+                    </ul>
+                    <div className="flex flex-wrap gap-2">
+                      <Button variant="outline" size="sm" onClick={copyCodes}>
+                        <Copy className="mr-2 h-3.5 w-3.5" />
+                        Copy
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={downloadCodes}>
+                        <Download className="mr-2 h-3.5 w-3.5" />
+                        Download
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={() => setRecoveryCodes(null)}
+                        className="bg-primary text-primary-foreground hover:bg-primary/90"
+                      >
+                        I&apos;ve saved them
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </motion.div>
+
+      <ActiveSessions />
+    </div>
+  );
+}
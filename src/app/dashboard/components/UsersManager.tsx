@@ -0,0 +1,163 @@
+"use client";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/components/ui/toast";
+import { TablePagination } from "@/components/TablePagination";
+import { useAuth } from "@/contexts/AuthContext";
+import { useQuery } from "@/hooks/useQuery";
+import { DEFAULT_PAGE_SIZE } from "@/lib/api/config";
+import { describeApiError } from "@/lib/api/errors";
+import { invalidateQueries } from "@/lib/api/queryCache";
+import { usersApi } from "@/lib/api/users";
+import { ROLES, Role, normalizeRoles } from "@/lib/auth/permissions";
+import { ManagedUser } from "@/types/api";
+import { motion } from "framer-motion";
+import { Loader2 } from "lucide-react";
+import { useState } from "react";
+
+const formatDate = (value: string) =>
+  new Intl.DateTimeFormat("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  }).format(new Date(value));
+
+export default function UsersManager() {
+  const { user } = useAuth();
+  const [page, setPage] = useState(0);
+  const [size, setSize] = useState(DEFAULT_PAGE_SIZE);
+  const [savingId, setSavingId] = useState<number | null>(null);
+  const { toast } = useToast();
+
+  const { data, error, isLoading, isFetching } = useQuery(
+    ["users", { page, size }],
+    () => usersApi.list({ page, size, sort: { field: "email" } })
+  );
+  const users = data?.content ?? [];
+
+  const changeRole = async (target: ManagedUser, role: Role) => {
+    try {
+      setSavingId(target.id);
+      await usersApi.updateRole(target.id, role);
+      invalidateQueries(["users"]);
+      toast({
+        title: "Role updated",
+        description: `${target.email} is now ${role.toLowerCase()}.`,
+        variant: "success",
+      });
+    } catch (err) {
+      toast({
+        title: "Update failed",
+        description: describeApiError(err, "Unable to change that role."),
+        variant: "destructive",
+      });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5 }}
+    >
+      <Card className="border-border/30 bg-card/30">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-xl">Users</CardTitle>
+          <CardDescription className="text-xs mt-1">
+            Role changes apply when the user&apos;s session next refreshes
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="pt-3">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8 text-sm text-muted-foreground">
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Loading users...
+            </div>
+          ) : error && !data ? (
+            <div className="rounded border border-destructive/30 bg-destructive/10 p-3 text-sm text-destructive">
+              {describeApiError(error, "Unable to load users. Please try again.")}
+            </div>
+          ) : (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Joined</TableHead>
+                    <TableHead>Role</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {users.map((item) => {
+                    // Admins can't demote themselves and lose this page
+                    const isSelf = String(item.id) === user?.id;
+                    return (
+                      <TableRow key={item.id}>
+                        <TableCell className="font-medium">{item.name}</TableCell>
+                        <TableCell>
+                          {item.email}
+                          {!item.emailVerified && (
+                            <span className="ml-2 rounded bg-muted px-1.5 py-0.5 text-xs text-muted-foreground">
+                              Unverified
+                            </span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {formatDate(item.createdAt)}
+                        </TableCell>
+                        <TableCell>
+                          <select
+                            aria-label={`Role for ${item.email}`}
+                            value={normalizeRoles(item.roles)[0]}
+                            disabled={isSelf || savingId === item.id}
+                            onChange={(e) => changeRole(item, e.target.value as Role)}
+                            className="border-input dark:bg-input/30 h-8 rounded-md border bg-transparent px-2 text-sm outline-none focus-visible:ring-2 focus-visible:ring-ring/50"
+                          >
+                            {ROLES.map((role) => (
+                              <option key={role} value={role}>
+                                {role.charAt(0) + role.slice(1).toLowerCase()}
+                              </option>
+                            ))}
+                          </select>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+              <TablePagination
+                page={page}
+                size={size}
+                totalElements={data?.totalElements ?? 0}
+                totalPages={data?.totalPages ?? 0}
+                disabled={isFetching}
+                onPageChange={setPage}
+                onSizeChange={(next) => {
+                  setSize(next);
+                  setPage(0);
+                }}
+              />
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+}
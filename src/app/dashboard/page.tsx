@@ -2,53 +2,35 @@
 
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { motion } from "framer-motion";
-import { User, Briefcase, GraduationCap, FolderOpen, FileText, LogOut, Code } from "lucide-react";
+import { User, Briefcase, GraduationCap, FolderOpen, FileText, LogOut, Code, Shield, UserCog, Users } from "lucide-react";
 import ProfileForm from "./components/ProfileForm";
 import ProjectsManager from "./components/ProjectsManager";
 import ExperienceManager from "./components/ExperienceManager";
 import EducationManager from "./components/EducationManager";
 import ResumeManager from "./components/ResumeManager";
 import LaTeXEditor from "./components/LaTeXEditor";
+import SecuritySettings from "./components/SecuritySettings";
+import AccountSettings from "./components/AccountSettings";
 import { Button } from "@/components/ui/button";
+import { RequireRole } from "@/components/RequireRole";
 import { ThemeToggle } from "@/components/ThemeToggle";
+import { NotificationCenter } from "@/components/NotificationCenter";
+import { VerifyEmailBanner } from "@/components/VerifyEmailBanner";
+import { OfflineBanner } from "@/components/OfflineBanner";
 import { useAuth } from "@/contexts/AuthContext";
-import { useEffect } from "react";
-import { useRouter } from "next/navigation";
+import { useOfflineSync } from "@/hooks/useOfflineSync";
+import { Suspense } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
 
 export default function DashboardPage() {
-  const { logout, isAuthenticated, isLoading } = useAuth();
-  const router = useRouter();
-
-  useEffect(() => {
-    if (!isLoading && !isAuthenticated) {
-      router.push("/login");
-    }
-  }, [isAuthenticated, isLoading, router]);
+  const { logout } = useAuth();
+  useOfflineSync();
 
   const handleLogout = () => {
     logout();
   };
 
-  if (isLoading) {
-    return (
-      <div className="flex min-h-screen items-center justify-center bg-gradient-navy">
-        <div className="text-center">
-          <p className="text-muted-foreground">Loading...</p>
-        </div>
-      </div>
-    );
-  }
-
-  if (!isAuthenticated) {
-    return (
-      <div className="flex min-h-screen items-center justify-center bg-gradient-navy">
-        <div className="text-center">
-          <p className="text-muted-foreground">Redirecting...</p>
-        </div>
-      </div>
-    );
-  }
-
   return (
     <div className="min-h-screen bg-gradient-navy">
       <div className="container mx-auto p-6 md:p-12 max-w-7xl">
@@ -68,7 +50,20 @@ export default function DashboardPage() {
               </p>
             </div>
             <div className="flex items-center gap-2 w-full sm:w-auto">
+              <NotificationCenter />
               <ThemeToggle />
+              <RequireRole permission="users:manage">
+                <Button
+                  variant="outline"
+                  asChild
+                  className="text-xs sm:text-sm flex-1 sm:flex-initial"
+                >
+                  <Link href="/dashboard/users">
+                    <Users className="mr-2 h-3.5 w-3.5" />
+                    Users
+                  </Link>
+                </Button>
+              </RequireRole>
               <Button
                 variant="outline"
                 onClick={handleLogout}
@@ -86,61 +81,97 @@ export default function DashboardPage() {
           animate={{ opacity: 1, y: 0 }}
           transition={{ duration: 0.5, delay: 0.2 }}
         >
-          <Tabs defaultValue="profile" className="w-full">
-            <TabsList className="grid w-full grid-cols-2 md:grid-cols-3 lg:grid-cols-6 mb-4 bg-card/30 border-border/30 h-10">
-              <TabsTrigger value="profile" className="data-[state=active]:text-accent text-xs md:text-sm">
-                <User className="mr-1.5 h-3.5 w-3.5" />
-                <span className="hidden sm:inline">Profile</span>
-              </TabsTrigger>
-              <TabsTrigger value="projects" className="data-[state=active]:text-accent text-xs md:text-sm">
-                <FolderOpen className="mr-1.5 h-3.5 w-3.5" />
-                <span className="hidden sm:inline">Projects</span>
-              </TabsTrigger>
-              <TabsTrigger value="experience" className="data-[state=active]:text-accent text-xs md:text-sm">
-                <Briefcase className="mr-1.5 h-3.5 w-3.5" />
-                <span className="hidden sm:inline">Experience</span>
-              </TabsTrigger>
-              <TabsTrigger value="education" className="data-[state=active]:text-accent text-xs md:text-sm">
-                <GraduationCap className="mr-1.5 h-3.5 w-3.5" />
-                <span className="hidden sm:inline">Education</span>
-              </TabsTrigger>
-              <TabsTrigger value="resume" className="data-[state=active]:text-accent text-xs md:text-sm">
-                <FileText className="mr-1.5 h-3.5 w-3.5" />
-                <span className="hidden sm:inline">Resume</span>
-              </TabsTrigger>
-              <TabsTrigger value="latex" className="data-[state=active]:text-accent text-xs md:text-sm">
-                <Code className="mr-1.5 h-3.5 w-3.5" />
-                <span className="hidden sm:inline">LaTeX</span>
-              </TabsTrigger>
-            </TabsList>
+          <OfflineBanner />
+          <VerifyEmailBanner />
+          {/* Table state lives in the URL, read via useSearchParams */}
+          <Suspense fallback={null}>
+            <DashboardTabs />
+          </Suspense>
+        </motion.div>
+      </div>
+    </div>
+  );
+}
 
-            <TabsContent value="profile" className="mt-4">
-              <ProfileForm />
-            </TabsContent>
+// `?tab=` opens a specific tab, e.g. when the OAuth callback returns to
+// Account settings
+function DashboardTabs() {
+  const searchParams = useSearchParams();
 
-            <TabsContent value="projects" className="mt-4">
-              <ProjectsManager />
-            </TabsContent>
+  return (
+    <Tabs defaultValue={searchParams.get("tab") ?? "profile"} className="w-full">
+      <TabsList className="grid w-full grid-cols-2 md:grid-cols-4 lg:flex mb-4 bg-card/30 border-border/30 h-10">
+        <TabsTrigger value="profile" className="data-[state=active]:text-accent text-xs md:text-sm">
+          <User className="mr-1.5 h-3.5 w-3.5" />
+          <span className="hidden sm:inline">Profile</span>
+        </TabsTrigger>
+        <TabsTrigger value="projects" className="data-[state=active]:text-accent text-xs md:text-sm">
+          <FolderOpen className="mr-1.5 h-3.5 w-3.5" />
+          <span className="hidden sm:inline">Projects</span>
+        </TabsTrigger>
+        <TabsTrigger value="experience" className="data-[state=active]:text-accent text-xs md:text-sm">
+          <Briefcase className="mr-1.5 h-3.5 w-3.5" />
+          <span className="hidden sm:inline">Experience</span>
+        </TabsTrigger>
+        <TabsTrigger value="education" className="data-[state=active]:text-accent text-xs md:text-sm">
+          <GraduationCap className="mr-1.5 h-3.5 w-3.5" />
+          <span className="hidden sm:inline">Education</span>
+        </TabsTrigger>
+        <TabsTrigger value="resume" className="data-[state=active]:text-accent text-xs md:text-sm">
+          <FileText className="mr-1.5 h-3.5 w-3.5" />
+          <span className="hidden sm:inline">Resume</span>
+        </TabsTrigger>
+        {/* Publishes PDFs to an upload server, so viewers don't get it */}
+        <RequireRole permission="content:write">
+          <TabsTrigger value="latex" className="data-[state=active]:text-accent text-xs md:text-sm">
+            <Code className="mr-1.5 h-3.5 w-3.5" />
+            <span className="hidden sm:inline">LaTeX</span>
+          </TabsTrigger>
+        </RequireRole>
+        {/* The user's own sign-in settings; open to every role */}
+        <TabsTrigger value="security" className="data-[state=active]:text-accent text-xs md:text-sm">
+          <Shield className="mr-1.5 h-3.5 w-3.5" />
+          <span className="hidden sm:inline">Security</span>
+        </TabsTrigger>
+        <TabsTrigger value="account" className="data-[state=active]:text-accent text-xs md:text-sm">
+          <UserCog className="mr-1.5 h-3.5 w-3.5" />
+          <span className="hidden sm:inline">Account</span>
+        </TabsTrigger>
+      </TabsList>
 
-            <TabsContent value="experience" className="mt-4">
-              <ExperienceManager />
-            </TabsContent>
+      <TabsContent value="profile" className="mt-4">
+        <ProfileForm />
+      </TabsContent>
 
-            <TabsContent value="education" className="mt-4">
-              <EducationManager />
-            </TabsContent>
+      <TabsContent value="projects" className="mt-4">
+        <ProjectsManager />
+      </TabsContent>
 
-            <TabsContent value="resume" className="mt-4">
-              <ResumeManager />
-            </TabsContent>
+      <TabsContent value="experience" className="mt-4">
+        <ExperienceManager />
+      </TabsContent>
 
-            <TabsContent value="latex" className="mt-4">
-              <LaTeXEditor />
-            </TabsContent>
-          </Tabs>
-        </motion.div>
-      </div>
-    </div>
+      <TabsContent value="education" className="mt-4">
+        <EducationManager />
+      </TabsContent>
+
+      <TabsContent value="resume" className="mt-4">
+        <ResumeManager />
+      </TabsContent>
+
+      <RequireRole permission="content:write">
+        <TabsContent value="latex" className="mt-4">
+          <LaTeXEditor />
+        </TabsContent>
+      </RequireRole>
+
+      <TabsContent value="security" className="mt-4">
+        <SecuritySettings />
+      </TabsContent>
+
+      <TabsContent value="account" className="mt-4">
+        <AccountSettings />
+      </TabsContent>
+    </Tabs>
   );
 }
-
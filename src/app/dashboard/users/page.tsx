@@ -0,0 +1,45 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { RequireRole } from "@/components/RequireRole";
+import { ArrowLeft } from "lucide-react";
+import Link from "next/link";
+import UsersManager from "../components/UsersManager";
+
+// The proxy already redirects users without `users:manage` when their token
+// is fresh; this covers the page loading before the session is refreshed
+export default function UsersPage() {
+  return (
+    <div className="min-h-screen bg-gradient-navy">
+      <div className="container mx-auto p-6 md:p-12 max-w-7xl">
+        <div className="mb-6 flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold text-shadow-sm mb-1">
+              User Management
+            </h1>
+            <p className="text-xs sm:text-sm text-muted-foreground">
+              Manage who can edit the portfolio
+            </p>
+          </div>
+          <Button variant="outline" asChild className="text-xs sm:text-sm">
+            <Link href="/dashboard">
+              <ArrowLeft className="mr-2 h-3.5 w-3.5" />
+              Back to Dashboard
+            </Link>
+          </Button>
+        </div>
+
+        <RequireRole
+          permission="users:manage"
+          fallback={
+            <div className="rounded border border-destructive/30 bg-destructive/10 p-3 text-sm text-destructive">
+              You don&apos;t have permission to manage users.
+            </div>
+          }
+        >
+          <UsersManager />
+        </RequireRole>
+      </div>
+    </div>
+  );
+}
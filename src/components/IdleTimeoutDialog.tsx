@@ -0,0 +1,47 @@
+"use client";
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+interface IdleTimeoutDialogProps {
+  // Seconds until sign-out, null while the user is active
+  remaining: number | null;
+  onStay: () => void;
+  onSignOut: () => void;
+}
+
+export function IdleTimeoutDialog({
+  remaining,
+  onStay,
+  onSignOut,
+}: IdleTimeoutDialogProps) {
+  return (
+    <AlertDialog open={remaining !== null}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Are you still there?</AlertDialogTitle>
+          <AlertDialogDescription aria-live="polite">
+            You&apos;ll be signed out in {remaining ?? 0}s due to inactivity.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={onSignOut}>Sign Out</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={onStay}
+            className="bg-primary text-primary-foreground hover:bg-primary/90"
+          >
+            Stay Signed In
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
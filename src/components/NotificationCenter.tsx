@@ -0,0 +1,141 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { NotificationEntry, useToast } from "@/components/ui/toast";
+import { cn } from "@/lib/utils";
+import { AnimatePresence, motion } from "framer-motion";
+import { Bell } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const variantDot: Record<NotificationEntry["variant"], string> = {
+  default: "bg-muted-foreground",
+  loading: "bg-muted-foreground",
+  success: "bg-accent",
+  destructive: "bg-destructive",
+};
+
+/**
+ * Header bell listing the notifications shown during this session. Opening
+ * the panel marks everything as read.
+ */
+export function NotificationCenter() {
+  const { history, unreadCount, markAllRead, clearHistory } = useToast();
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") setOpen(false);
+    };
+    document.addEventListener("pointerdown", handlePointerDown);
+    document.addEventListener("keydown", handleKeyDown);
+    return () => {
+      document.removeEventListener("pointerdown", handlePointerDown);
+      document.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [open]);
+
+  const toggle = () => {
+    if (!open) markAllRead();
+    setOpen((prev) => !prev);
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <Button
+        variant="outline"
+        size="icon"
+        onClick={toggle}
+        aria-expanded={open}
+        aria-haspopup="dialog"
+        className="relative border-accent/50 hover:bg-accent/10 hover:border-accent"
+      >
+        <Bell className="h-4 w-4" />
+        {unreadCount > 0 && (
+          <span className="absolute -right-1 -top-1 flex h-4 min-w-4 items-center justify-center rounded-full bg-accent px-1 text-[10px] font-semibold text-accent-foreground">
+            {unreadCount > 9 ? "9+" : unreadCount}
+          </span>
+        )}
+        <span className="sr-only">
+          {unreadCount > 0
+            ? `Notifications (${unreadCount} unread)`
+            : "Notifications"}
+        </span>
+      </Button>
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            role="dialog"
+            aria-label="Notifications"
+            initial={{ opacity: 0, y: -8 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -8 }}
+            transition={{ duration: 0.15 }}
+            className="absolute right-0 z-50 mt-2 w-80 rounded-md border border-border bg-background shadow-lg"
+          >
+            <div className="flex items-center justify-between border-b border-border/30 px-4 py-2">
+              <span className="text-sm font-semibold">Notifications</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={clearHistory}
+                disabled={history.length === 0}
+                className="h-7 px-2 text-xs"
+              >
+                Clear
+              </Button>
+            </div>
+            {history.length === 0 ? (
+              <p className="px-4 py-6 text-center text-xs text-muted-foreground">
+                No notifications yet.
+              </p>
+            ) : (
+              <ul className="max-h-80 overflow-y-auto">
+                {history.map((entry) => (
+                  <li
+                    key={entry.id}
+                    className="flex gap-3 border-b border-border/30 px-4 py-3 last:border-b-0"
+                  >
+                    <span
+                      className={cn(
+                        "mt-1.5 h-2 w-2 shrink-0 rounded-full",
+                        variantDot[entry.variant]
+                      )}
+                    />
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-baseline justify-between gap-2">
+                        <span className="truncate text-sm font-medium">
+                          {entry.title}
+                        </span>
+                        <span className="shrink-0 text-[10px] text-muted-foreground">
+                          {formatTime(entry.createdAt)}
+                        </span>
+                      </div>
+                      {entry.description && (
+                        <p className="text-xs text-muted-foreground">
+                          {entry.description}
+                        </p>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
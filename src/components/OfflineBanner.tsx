@@ -0,0 +1,48 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/contexts/AuthContext";
+import { useMutationQueue } from "@/hooks/useMutationQueue";
+import { useNetworkStatus } from "@/hooks/useNetworkStatus";
+import { CloudOff, WifiOff } from "lucide-react";
+
+export function OfflineBanner() {
+  const { isOnline, isServerReachable } = useNetworkStatus();
+  const { user } = useAuth();
+  const queue = useMutationQueue(user?.id ? Number(user.id) : null);
+  const pendingCount = queue.filter((entry) => entry.status === "pending").length;
+
+  if (isOnline && isServerReachable) {
+    return null;
+  }
+
+  const Icon = isOnline ? CloudOff : WifiOff;
+
+  return (
+    <div
+      role="status"
+      className="mb-4 flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 rounded border border-destructive/30 bg-destructive/10 p-3 text-sm"
+    >
+      <div className="flex items-start gap-2">
+        <Icon className="mt-0.5 h-4 w-4 shrink-0 text-destructive" />
+        <span>
+          {isOnline
+            ? "We can't reach the server right now. New and edited entries are kept on this device and synced once it's back."
+            : "You're offline. New and edited entries are kept on this device and synced once your connection is restored."}
+          {pendingCount > 0 &&
+            ` ${pendingCount} ${pendingCount === 1 ? "change is" : "changes are"} waiting to sync.`}
+        </span>
+      </div>
+      {isOnline && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => window.location.reload()}
+          className="border-destructive/50 hover:bg-destructive/10 hover:border-destructive shrink-0"
+        >
+          Reload
+        </Button>
+      )}
+    </div>
+  );
+}
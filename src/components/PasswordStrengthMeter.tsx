@@ -0,0 +1,42 @@
+"use client";
+
+import {
+  PASSWORD_STRENGTH_LABELS,
+  getPasswordStrength,
+} from "@/lib/auth/password";
+import { cn } from "@/lib/utils";
+
+const BAR_COLORS = [
+  "bg-destructive",
+  "bg-destructive",
+  "bg-amber-500",
+  "bg-accent",
+  "bg-green-500",
+];
+
+export function PasswordStrengthMeter({ password }: { password: string }) {
+  if (!password) {
+    return null;
+  }
+
+  const strength = getPasswordStrength(password);
+
+  return (
+    <div className="space-y-1" aria-live="polite">
+      <div className="flex gap-1">
+        {[1, 2, 3, 4].map((level) => (
+          <div
+            key={level}
+            className={cn(
+              "h-1 flex-1 rounded-full bg-muted/40 transition-colors",
+              strength >= level && BAR_COLORS[strength]
+            )}
+          />
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Strength: {PASSWORD_STRENGTH_LABELS[strength]}
+      </p>
+    </div>
+  );
+}
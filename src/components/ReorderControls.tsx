@@ -0,0 +1,57 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { ChevronDown, ChevronUp, GripVertical } from "lucide-react";
+
+interface ReorderControlsProps {
+  label: string;
+  index: number;
+  count: number;
+  disabled?: boolean;
+  handleProps: React.HTMLAttributes<HTMLElement> & { draggable: boolean };
+  onMove: (from: number, to: number) => void;
+}
+
+export function ReorderControls({
+  label,
+  index,
+  count,
+  disabled,
+  handleProps,
+  onMove,
+}: ReorderControlsProps) {
+  return (
+    <div className="flex items-center gap-0.5">
+      <span
+        {...handleProps}
+        draggable={!disabled && handleProps.draggable}
+        className="cursor-grab text-muted-foreground hover:text-foreground active:cursor-grabbing"
+        title="Drag to reorder"
+      >
+        <GripVertical className="h-4 w-4" />
+      </span>
+      <div className="flex flex-col">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onMove(index, index - 1)}
+          disabled={disabled || index === 0}
+          className="h-4 w-5 p-0"
+          aria-label={`Move ${label} up`}
+        >
+          <ChevronUp className="h-3 w-3" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onMove(index, index + 1)}
+          disabled={disabled || index === count - 1}
+          className="h-4 w-5 p-0"
+          aria-label={`Move ${label} down`}
+        >
+          <ChevronDown className="h-3 w-3" />
+        </Button>
+      </div>
+    </div>
+  );
+}
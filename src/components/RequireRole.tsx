@@ -0,0 +1,27 @@
+"use client";
+
+import { useAuthorization } from "@/hooks/useAuthorization";
+import { Permission, Role } from "@/lib/auth/permissions";
+import { ReactNode } from "react";
+
+interface RequireRoleProps {
+  role?: Role | Role[];
+  permission?: Permission;
+  // Rendered instead of children when access is denied
+  fallback?: ReactNode;
+  children: ReactNode;
+}
+
+export function RequireRole({
+  role,
+  permission,
+  fallback = null,
+  children,
+}: RequireRoleProps) {
+  const { can, hasRole } = useAuthorization();
+
+  const allowed =
+    (!role || hasRole(role)) && (!permission || can(permission));
+
+  return <>{allowed ? children : fallback}</>;
+}
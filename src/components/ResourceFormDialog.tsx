@@ -0,0 +1,102 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Form } from "@/components/ui/form";
+import { ResourceLabels } from "@/hooks/useResourceManager";
+import { Plus } from "lucide-react";
+import { ReactNode } from "react";
+import { FieldValues, UseFormReturn } from "react-hook-form";
+
+interface ResourceFormDialogProps<TValues extends FieldValues> {
+  form: UseFormReturn<TValues>;
+  labels: ResourceLabels;
+  open: boolean;
+  isEditing: boolean;
+  isSaving: boolean;
+  // Renders nothing, e.g. for viewers who can't add or edit
+  readOnly?: boolean;
+  onOpenChange: (open: boolean) => void;
+  onAddNew: () => void;
+  onSubmit: (values: TValues) => void;
+  children: ReactNode;
+}
+
+export function ResourceFormDialog<TValues extends FieldValues>({
+  form,
+  labels,
+  open,
+  isEditing,
+  isSaving,
+  readOnly = false,
+  onOpenChange,
+  onAddNew,
+  onSubmit,
+  children,
+}: ResourceFormDialogProps<TValues>) {
+  if (readOnly) {
+    return null;
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogTrigger asChild>
+        <Button
+          onClick={onAddNew}
+          className="bg-primary text-primary-foreground hover:bg-primary/90"
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add {labels.title}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader className="pb-2">
+          <DialogTitle className="text-lg">
+            {isEditing ? `Edit ${labels.title}` : `Add New ${labels.title}`}
+          </DialogTitle>
+          <DialogDescription className="text-xs">
+            {isEditing ? labels.editDescription : labels.createDescription}
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-3">
+            {children}
+            {form.formState.errors.root?.server && (
+              <div className="text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded p-2">
+                {form.formState.errors.root.server.message}
+              </div>
+            )}
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={isSaving}
+                className="bg-primary text-primary-foreground hover:bg-primary/90"
+              >
+                {isSaving
+                  ? "Saving..."
+                  : isEditing
+                    ? `Update ${labels.title}`
+                    : `Add ${labels.title}`}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
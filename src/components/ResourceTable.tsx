@@ -0,0 +1,347 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ReorderControls } from "@/components/ReorderControls";
+import { TablePagination } from "@/components/TablePagination";
+import { TableSearch } from "@/components/TableSearch";
+import { Orderable, useReorder } from "@/hooks/useReorder";
+import { PaginationState } from "@/hooks/useResourceManager";
+import { TableQuery } from "@/hooks/useTableQuery";
+import { QueuedMutation } from "@/lib/api/mutationQueue";
+import { cn } from "@/lib/utils";
+import { AnimatePresence, motion } from "framer-motion";
+import {
+  ArrowDown,
+  ArrowUp,
+  ArrowUpDown,
+  CloudUpload,
+  Edit,
+  Trash2,
+  TriangleAlert,
+} from "lucide-react";
+import { ReactNode, useState } from "react";
+
+export interface ResourceColumn<T> {
+  key: string;
+  header: string;
+  // Applied to both the header and the cells, e.g. widths and breakpoints
+  className?: string;
+  cellClassName?: string;
+  // Server-side field to sort by when the header is clicked
+  sortField?: string;
+  render: (item: T) => ReactNode;
+}
+
+interface ResourceTableProps<T extends Orderable> {
+  items: T[];
+  columns: ResourceColumn<T>[];
+  query: TableQuery;
+  pagination: PaginationState;
+  // Singular name used in the delete confirmation, e.g. "project"
+  noun: string;
+  isLoading: boolean;
+  loadingText: string;
+  emptyText: string;
+  searchPlaceholder: string;
+  getLabel: (item: T) => string;
+  reorder: ReturnType<typeof useReorder<T>>;
+  // Hides reordering and the edit/delete actions, e.g. for viewers
+  readOnly?: boolean;
+  onEdit: (item: T) => void;
+  onDelete: (item: T) => void;
+  // Offline changes still waiting to sync, shown as badges on their rows
+  getSyncState?: (item: T) => QueuedMutation | undefined;
+  onResolveConflict?: (item: T, keepLocal: boolean) => void;
+}
+
+export function ResourceTable<T extends Orderable>({
+  items,
+  columns,
+  query,
+  pagination,
+  noun,
+  isLoading,
+  loadingText,
+  emptyText,
+  searchPlaceholder,
+  getLabel,
+  reorder,
+  readOnly = false,
+  onEdit,
+  onDelete,
+  getSyncState,
+  onResolveConflict,
+}: ResourceTableProps<T>) {
+  // Reorder handle + data columns + actions
+  const columnCount = columns.length + (readOnly ? 0 : 2);
+  const [confirming, setConfirming] = useState<T | null>(null);
+  const [resolving, setResolving] = useState<T | null>(null);
+  const resolvingConflict = resolving ? getSyncState?.(resolving)?.conflict : undefined;
+  // Positions only mean something when rows are listed in display order,
+  // and unsynced rows have no server position yet
+  const canReorder =
+    query.isDefaultOrder &&
+    !isLoading &&
+    !items.some((item) => getSyncState?.(item));
+
+  const renderSyncBadge = (item: T) => {
+    const sync = getSyncState?.(item);
+    if (!sync) return null;
+    if (sync.status === "conflict") {
+      return (
+        <button
+          type="button"
+          onClick={() => setResolving(item)}
+          className="mr-1 inline-flex items-center gap-1 rounded bg-destructive/10 px-1.5 py-0.5 text-xs text-destructive hover:bg-destructive/20"
+        >
+          <TriangleAlert className="h-3 w-3" />
+          Conflict
+        </button>
+      );
+    }
+    return (
+      <span className="mr-1 inline-flex items-center gap-1 rounded bg-accent/10 px-1.5 py-0.5 text-xs text-accent">
+        <CloudUpload className="h-3 w-3" />
+        Pending sync
+      </span>
+    );
+  };
+
+  const renderSortIcon = (field: string) => {
+    if (query.sort.field !== field) {
+      return <ArrowUpDown className="h-3 w-3 opacity-50" />;
+    }
+    return query.sort.direction === "desc" ? (
+      <ArrowDown className="h-3 w-3" />
+    ) : (
+      <ArrowUp className="h-3 w-3" />
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <TableSearch
+        value={query.search}
+        placeholder={searchPlaceholder}
+        onSearch={query.setSearch}
+      />
+      <div className="rounded border border-border/30 overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow className="border-border/30">
+              {!readOnly && (
+                <TableHead className="py-2 text-xs font-medium w-[60px]">
+                  <span className="sr-only">Reorder</span>
+                </TableHead>
+              )}
+              {columns.map((column) => (
+                <TableHead
+                  key={column.key}
+                  className={cn("py-2 text-xs font-medium", column.className)}
+                  aria-sort={
+                    column.sortField && query.sort.field === column.sortField
+                      ? query.sort.direction === "desc"
+                        ? "descending"
+                        : "ascending"
+                      : undefined
+                  }
+                >
+                  {column.sortField ? (
+                    <button
+                      type="button"
+                      onClick={() => query.toggleSort(column.sortField!)}
+                      className="inline-flex items-center gap-1 hover:text-foreground"
+                    >
+                      {column.header}
+                      {renderSortIcon(column.sortField)}
+                    </button>
+                  ) : (
+                    column.header
+                  )}
+                </TableHead>
+              ))}
+              {!readOnly && (
+                <TableHead className="py-2 text-xs font-medium text-right min-w-[100px]">Actions</TableHead>
+              )}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            <AnimatePresence>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={columnCount} className="py-6 text-center text-sm text-muted-foreground">
+                    {loadingText}
+                  </TableCell>
+                </TableRow>
+              ) : items.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={columnCount} className="py-6 text-center text-sm text-muted-foreground">
+                    {query.search
+                    ? `No results match "${query.search}".`
+                    : emptyText}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                items.map((item, index) => (
+                  <motion.tr
+                    key={item.id}
+                    {...reorder.getRowProps(item)}
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0, y: -10 }}
+                    transition={{ duration: 0.2 }}
+                    className={cn(
+                      "border-border/30",
+                      reorder.draggingId === item.id && "opacity-50",
+                      reorder.overId === item.id &&
+                        reorder.draggingId !== item.id &&
+                        "bg-accent/10"
+                    )}
+                  >
+                    {!readOnly && (
+                      <TableCell className="py-3 w-[60px]">
+                        <ReorderControls
+                          label={getLabel(item)}
+                          index={index}
+                          count={items.length}
+                          disabled={!canReorder}
+                          handleProps={reorder.getHandleProps(item)}
+                          onMove={reorder.move}
+                        />
+                      </TableCell>
+                    )}
+                    {columns.map((column) => (
+                      <TableCell
+                        key={column.key}
+                        className={cn("py-3", column.className, column.cellClassName)}
+                      >
+                        {column.render(item)}
+                      </TableCell>
+                    ))}
+                    {!readOnly && (
+                      <TableCell className="py-3 text-right min-w-[100px]">
+                        <div className="flex items-center justify-end gap-1">
+                          {renderSyncBadge(item)}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => onEdit(item)}
+                            className="h-7 w-7 p-0"
+                            aria-label={`Edit ${getLabel(item)}`}
+                          >
+                            <Edit className="h-3.5 w-3.5" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setConfirming(item)}
+                            className="h-7 w-7 p-0"
+                            aria-label={`Delete ${getLabel(item)}`}
+                          >
+                            <Trash2 className="h-3.5 w-3.5 text-destructive" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    )}
+                  </motion.tr>
+                ))
+              )}
+            </AnimatePresence>
+          </TableBody>
+        </Table>
+      </div>
+      <TablePagination
+        page={query.page}
+        size={query.size}
+        totalElements={pagination.totalElements}
+        totalPages={pagination.totalPages}
+        disabled={isLoading}
+        onPageChange={query.setPage}
+        onSizeChange={query.setSize}
+      />
+      <AlertDialog
+        open={!!confirming}
+        onOpenChange={(open) => {
+          if (!open) setConfirming(null);
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {noun}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete &quot;{confirming ? getLabel(confirming) : ""}&quot;?
+              You can undo this for a few seconds after deleting.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (confirming) onDelete(confirming);
+                setConfirming(null);
+              }}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+      <AlertDialog
+        open={!!resolving}
+        onOpenChange={(open) => {
+          if (!open) setResolving(null);
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Resolve sync conflict</AlertDialogTitle>
+            <AlertDialogDescription>
+              Your offline changes to &quot;{resolving ? getLabel(resolving) : ""}&quot;
+              couldn&apos;t be synced. {resolvingConflict?.message} Keep your version
+              to overwrite the server copy, or discard it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (resolving) onResolveConflict?.(resolving, false);
+                setResolving(null);
+              }}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Discard Mine
+            </AlertDialogAction>
+            <AlertDialogAction
+              onClick={() => {
+                if (resolving) onResolveConflict?.(resolving, true);
+                setResolving(null);
+              }}
+            >
+              Keep Mine
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { useId } from "react";
+import { PAGE_SIZE_OPTIONS } from "@/hooks/useTableQuery";
+
+interface TablePaginationProps {
+  page: number;
+  size: number;
+  totalElements: number;
+  totalPages: number;
+  disabled?: boolean;
+  onPageChange: (page: number) => void;
+  onSizeChange: (size: number) => void;
+}
+
+export function TablePagination({
+  page,
+  size,
+  totalElements,
+  totalPages,
+  disabled,
+  onPageChange,
+  onSizeChange,
+}: TablePaginationProps) {
+  const sizeId = useId();
+  const from = totalElements === 0 ? 0 : page * size + 1;
+  const to = Math.min((page + 1) * size, totalElements);
+  const lastPage = Math.max(totalPages - 1, 0);
+
+  return (
+    <div className="flex flex-col-reverse gap-3 pt-3 text-xs text-muted-foreground sm:flex-row sm:items-center sm:justify-between">
+      <div className="flex items-center gap-2">
+        <label htmlFor={sizeId} className="whitespace-nowrap">
+          Rows per page
+        </label>
+        <select
+          id={sizeId}
+          value={size}
+          disabled={disabled}
+          onChange={(e) => onSizeChange(Number(e.target.value))}
+          className="border-input dark:bg-input/30 h-7 rounded-md border bg-transparent px-2 text-xs outline-none focus-visible:ring-2 focus-visible:ring-ring/50"
+        >
+          {PAGE_SIZE_OPTIONS.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="flex items-center justify-between gap-3 sm:justify-end">
+        <span aria-live="polite">
+          {from}–{to} of {totalElements}
+        </span>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onPageChange(page - 1)}
+            disabled={disabled || page <= 0}
+            className="h-7 w-7 p-0"
+            aria-label="Previous page"
+          >
+            <ChevronLeft className="h-3.5 w-3.5" />
+          </Button>
+          <span className="px-1 whitespace-nowrap">
+            Page {Math.min(page + 1, lastPage + 1)} of {lastPage + 1}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onPageChange(page + 1)}
+            disabled={disabled || page >= lastPage}
+            className="h-7 w-7 p-0"
+            aria-label="Next page"
+          >
+            <ChevronRight className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Search } from "lucide-react";
+import { useEffect, useState } from "react";
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+interface TableSearchProps {
+  value: string;
+  placeholder: string;
+  onSearch: (value: string) => void;
+}
+
+export function TableSearch({ value, placeholder, onSearch }: TableSearchProps) {
+  const [draft, setDraft] = useState(value);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => onSearch(draft), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [draft, onSearch]);
+
+  return (
+    <div className="relative w-full sm:max-w-xs">
+      <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-muted-foreground" />
+      <Input
+        type="search"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        placeholder={placeholder}
+        aria-label={placeholder}
+        className="h-8 pl-9 text-sm"
+      />
+    </div>
+  );
+}
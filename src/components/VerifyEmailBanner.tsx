@@ -0,0 +1,51 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/contexts/AuthContext";
+import { useAuthorization } from "@/hooks/useAuthorization";
+import { useResendVerification } from "@/hooks/useResendVerification";
+import { MailWarning } from "lucide-react";
+
+/**
+ * Reminds unverified users to confirm their email; until they do, they can
+ * edit content but not publish it (e.g. feature projects).
+ */
+export function VerifyEmailBanner() {
+  const { user } = useAuth();
+  const { isUnverified } = useAuthorization();
+  const { resend, remaining, isSending, canResend } = useResendVerification(
+    user?.email ?? ""
+  );
+
+  if (!isUnverified) {
+    return null;
+  }
+
+  return (
+    <div
+      role="status"
+      className="mb-4 flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 rounded border border-accent/30 bg-accent/10 p-3 text-sm"
+    >
+      <div className="flex items-start gap-2">
+        <MailWarning className="mt-0.5 h-4 w-4 shrink-0 text-accent" />
+        <span>
+          Verify your email address to publish featured content. We sent a
+          link to <span className="font-medium">{user?.email}</span>.
+        </span>
+      </div>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={resend}
+        disabled={!canResend || isSending}
+        className="border-accent/50 hover:bg-accent/10 hover:border-accent shrink-0"
+      >
+        {isSending
+          ? "Sending..."
+          : remaining > 0
+            ? `Resend in ${remaining}s`
+            : "Resend Email"}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+"use client"
+
+import * as React from "react"
+import { X } from "lucide-react"
+
+import { cn } from "@/lib/utils"
+
+interface TagInputProps
+  extends Omit<React.ComponentProps<"input">, "value" | "onChange"> {
+  value: string[]
+  onChange: (value: string[]) => void
+  suggestions?: string[]
+  maxSuggestions?: number
+}
+
+function TagInput({
+  value,
+  onChange,
+  suggestions = [],
+  maxSuggestions = 6,
+  className,
+  placeholder,
+  disabled,
+  onBlur,
+  ...props
+}: TagInputProps) {
+  const [draft, setDraft] = React.useState("")
+  const [isOpen, setIsOpen] = React.useState(false)
+  // -1 until the user arrows into the list, so Enter keeps what was typed
+  const [highlighted, setHighlighted] = React.useState(-1)
+  const listId = React.useId()
+
+  const matches = React.useMemo(() => {
+    const query = draft.trim().toLowerCase()
+    const selected = new Set(value.map((tag) => tag.toLowerCase()))
+    return suggestions
+      .filter(
+        (suggestion) =>
+          !selected.has(suggestion.toLowerCase()) &&
+          suggestion.toLowerCase().includes(query)
+      )
+      .slice(0, maxSuggestions)
+  }, [draft, suggestions, value, maxSuggestions])
+
+  const addTag = (tag: string) => {
+    const trimmed = tag.trim()
+    setDraft("")
+    setHighlighted(-1)
+    if (!trimmed) return
+    if (value.some((existing) => existing.toLowerCase() === trimmed.toLowerCase())) {
+      return
+    }
+    onChange([...value, trimmed])
+  }
+
+  const removeTag = (index: number) => {
+    onChange(value.filter((_, i) => i !== index))
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const showMatches = isOpen && matches.length > 0
+    if (e.key === "Enter" || e.key === "," || e.key === "Tab") {
+      if (e.key === "Tab" && !draft.trim()) return
+      e.preventDefault()
+      // A suggestion wins only when chosen with the arrow keys or typed in
+      // full, otherwise "Go" would turn into "Django"
+      const typed = draft.trim().toLowerCase()
+      const picked = showMatches ? matches[highlighted] : undefined
+      const exact = matches.find((match) => match.toLowerCase() === typed)
+      addTag(picked ?? exact ?? draft)
+    } else if (e.key === "Backspace" && !draft && value.length > 0) {
+      removeTag(value.length - 1)
+    } else if (e.key === "ArrowDown" && showMatches) {
+      e.preventDefault()
+      setHighlighted((prev) => (prev + 1) % matches.length)
+    } else if (e.key === "ArrowUp" && showMatches) {
+      e.preventDefault()
+      setHighlighted((prev) => (prev <= 0 ? matches.length - 1 : prev - 1))
+    } else if (e.key === "Escape") {
+      setIsOpen(false)
+    }
+  }
+
+  // Pasting "React, Node.js, Postgres" should produce three tags at once
+  const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+    const text = e.clipboardData.getData("text")
+    if (!text.includes(",")) return
+    e.preventDefault()
+    const incoming = text.split(",").map((tag) => tag.trim()).filter(Boolean)
+    const next = [...value]
+    incoming.forEach((tag) => {
+      if (!next.some((existing) => existing.toLowerCase() === tag.toLowerCase())) {
+        next.push(tag)
+      }
+    })
+    onChange(next)
+  }
+
+  return (
+    <div className="relative">
+      <div
+        data-slot="tag-input"
+        className={cn(
+          "border-input dark:bg-input/30 flex min-h-9 w-full flex-wrap items-center gap-1.5 rounded-md border bg-transparent px-2 py-1 text-base shadow-xs transition-[color,box-shadow] md:text-sm",
+          "focus-within:border-ring focus-within:ring-ring/50 focus-within:ring-[3px]",
+          "has-[[aria-invalid=true]]:border-destructive",
+          disabled && "pointer-events-none cursor-not-allowed opacity-50",
+          className
+        )}
+      >
+        {value.map((tag, index) => (
+          <span
+            key={tag}
+            className="inline-flex items-center gap-1 rounded-full border border-accent/30 bg-accent/10 px-2 py-0.5 text-xs text-accent"
+          >
+            {tag}
+            <button
+              type="button"
+              onClick={() => removeTag(index)}
+              className="rounded-full hover:text-foreground focus:outline-none focus:ring-1 focus:ring-ring"
+              aria-label={`Remove ${tag}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          {...props}
+          type="text"
+          value={draft}
+          disabled={disabled}
+          placeholder={value.length === 0 ? placeholder : undefined}
+          onChange={(e) => {
+            setDraft(e.target.value)
+            setHighlighted(-1)
+            setIsOpen(true)
+          }}
+          onFocus={() => setIsOpen(true)}
+          onBlur={(e) => {
+            setIsOpen(false)
+            if (draft.trim()) addTag(draft)
+            onBlur?.(e)
+          }}
+          onKeyDown={handleKeyDown}
+          onPaste={handlePaste}
+          role="combobox"
+          aria-expanded={isOpen && matches.length > 0}
+          aria-controls={listId}
+          aria-autocomplete="list"
+          className="placeholder:text-muted-foreground min-w-[120px] flex-1 bg-transparent py-0.5 outline-none"
+        />
+      </div>
+      {isOpen && matches.length > 0 && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="bg-popover text-popover-foreground absolute z-50 mt-1 max-h-48 w-full overflow-y-auto rounded-md border p-1 shadow-md"
+        >
+          {matches.map((match, index) => (
+            <li
+              key={match}
+              role="option"
+              aria-selected={index === highlighted}
+              // Prevent the input blur from firing before the click lands
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => addTag(match)}
+              className={cn(
+                "cursor-pointer rounded-sm px-2 py-1.5 text-sm",
+                index === highlighted && "bg-accent/10 text-accent"
+              )}
+            >
+              {match}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export { TagInput }
@@ -1,52 +1,260 @@
 "use client"
 
 import * as React from "react"
-import { X } from "lucide-react"
+import { Loader2, X } from "lucide-react"
 import { cn } from "@/lib/utils"
 
+const DEFAULT_DURATION = 5000
+const MAX_VISIBLE_TOASTS = 3
+const MAX_HISTORY = 50
+
+export type ToastVariant = "default" | "destructive" | "success" | "loading"
+
+export interface ToastAction {
+  label: string
+  onClick: () => void
+}
+
 export interface ToastProps {
   id: string
   title?: string
   description?: string
-  variant?: "default" | "destructive" | "success"
+  variant?: ToastVariant
   duration?: number
+  actions?: ToastAction[]
+  // Runs once when the toast goes away: expired, dismissed or pushed out by
+  // newer toasts. Hovering pauses expiry, so this is the moment to act on
+  // an offer like Undo lapsing
+  onClose?: () => void
+}
+
+export type ToastOptions = Omit<ToastProps, "id">
+
+export interface NotificationEntry {
+  id: string
+  title?: string
+  description?: string
+  variant: ToastVariant
+  createdAt: number
+  read: boolean
+}
+
+interface PromiseToastMessages<T> {
+  loading: ToastOptions
+  success: ToastOptions | ((result: T) => ToastOptions)
+  error: ToastOptions | ((error: unknown) => ToastOptions)
 }
 
 interface ToastContextType {
   toasts: ToastProps[]
-  toast: (props: Omit<ToastProps, "id">) => void
+  history: NotificationEntry[]
+  unreadCount: number
+  toast: (props: ToastOptions) => string
+  update: (id: string, props: ToastOptions) => void
+  promise: <T>(
+    promise: Promise<T>,
+    messages: PromiseToastMessages<T>
+  ) => Promise<T>
   dismiss: (id: string) => void
+  markAllRead: () => void
+  clearHistory: () => void
+}
+
+interface ToastTimer {
+  timeout?: ReturnType<typeof setTimeout>
+  remaining: number
+  startedAt: number
 }
 
 const ToastContext = React.createContext<ToastContextType | undefined>(undefined)
 
 export function ToastProvider({ children }: { children: React.ReactNode }) {
   const [toasts, setToasts] = React.useState<ToastProps[]>([])
+  const [history, setHistory] = React.useState<NotificationEntry[]>([])
+  const timers = React.useRef(new Map<string, ToastTimer>())
+  // Ids on screen, oldest first; kept outside state so eviction can run
+  // its side effects in the event handler rather than in an updater
+  const visibleIds = React.useRef<string[]>([])
+  const closeHandlers = React.useRef(new Map<string, () => void>())
+
+  const clearTimer = React.useCallback((id: string) => {
+    const timer = timers.current.get(id)
+    if (timer?.timeout) clearTimeout(timer.timeout)
+    timers.current.delete(id)
+  }, [])
+
+  // Clears the toast's timer and runs its onClose, at most once per toast
+  const close = React.useCallback(
+    (id: string) => {
+      clearTimer(id)
+      visibleIds.current = visibleIds.current.filter((visible) => visible !== id)
+      const onClose = closeHandlers.current.get(id)
+      closeHandlers.current.delete(id)
+      onClose?.()
+    },
+    [clearTimer]
+  )
+
+  const dismiss = React.useCallback(
+    (id: string) => {
+      close(id)
+      setToasts((prev) => prev.filter((t) => t.id !== id))
+    },
+    [close]
+  )
+
+  const startTimer = React.useCallback(
+    (id: string, duration: number) => {
+      clearTimer(id)
+      // Loading toasts and duration 0 stay until dismissed or updated
+      if (duration <= 0) return
+      timers.current.set(id, {
+        timeout: setTimeout(() => dismiss(id), duration),
+        remaining: duration,
+        startedAt: Date.now(),
+      })
+    },
+    [clearTimer, dismiss]
+  )
+
+  const pause = React.useCallback((id: string) => {
+    const timer = timers.current.get(id)
+    if (!timer?.timeout) return
+    clearTimeout(timer.timeout)
+    timer.timeout = undefined
+    timer.remaining -= Date.now() - timer.startedAt
+  }, [])
+
+  const resume = React.useCallback(
+    (id: string) => {
+      const timer = timers.current.get(id)
+      if (!timer || timer.timeout) return
+      timer.startedAt = Date.now()
+      timer.timeout = setTimeout(() => dismiss(id), Math.max(timer.remaining, 0))
+    },
+    [dismiss]
+  )
+
+  const record = React.useCallback((id: string, props: ToastOptions) => {
+    // Loading states are transient; only the outcome goes into history
+    if (props.variant === "loading") return
+    setHistory((prev) => {
+      const entry: NotificationEntry = {
+        id,
+        title: props.title,
+        description: props.description,
+        variant: props.variant ?? "default",
+        createdAt: Date.now(),
+        read: false,
+      }
+      return [entry, ...prev.filter((e) => e.id !== id)].slice(0, MAX_HISTORY)
+    })
+  }, [])
 
   const toast = React.useCallback(
-    (props: Omit<ToastProps, "id">) => {
+    (props: ToastOptions) => {
       const id = Math.random().toString(36).substring(7)
       const newToast: ToastProps = { ...props, id }
-      setToasts((prev) => [...prev, newToast])
+      // Drop the oldest toasts once the stack is full
+      const ids = [...visibleIds.current, id]
+      const evicted = ids.slice(0, Math.max(ids.length - MAX_VISIBLE_TOASTS, 0))
+      evicted.forEach(close)
+      visibleIds.current = ids.slice(evicted.length)
+      if (props.onClose) closeHandlers.current.set(id, props.onClose)
+      setToasts((prev) => [
+        ...prev.filter((t) => !evicted.includes(t.id)),
+        newToast,
+      ])
+      record(id, props)
+      startTimer(
+        id,
+        props.variant === "loading" ? 0 : props.duration ?? DEFAULT_DURATION
+      )
+      return id
+    },
+    [close, record, startTimer]
+  )
 
-      const duration = props.duration ?? 5000
-      if (duration > 0) {
-        setTimeout(() => {
-          setToasts((prev) => prev.filter((t) => t.id !== id))
-        }, duration)
+  const update = React.useCallback(
+    (id: string, props: ToastOptions) => {
+      if (props.onClose) closeHandlers.current.set(id, props.onClose)
+      setToasts((prev) =>
+        prev.map((t) => (t.id === id ? { ...props, id } : t))
+      )
+      record(id, props)
+      startTimer(
+        id,
+        props.variant === "loading" ? 0 : props.duration ?? DEFAULT_DURATION
+      )
+    },
+    [record, startTimer]
+  )
+
+  const promise = React.useCallback(
+    async <T,>(
+      pending: Promise<T>,
+      messages: PromiseToastMessages<T>
+    ): Promise<T> => {
+      const id = toast({ ...messages.loading, variant: "loading" })
+      try {
+        const result = await pending
+        const success =
+          typeof messages.success === "function"
+            ? messages.success(result)
+            : messages.success
+        update(id, { variant: "success", ...success })
+        return result
+      } catch (error) {
+        const failure =
+          typeof messages.error === "function"
+            ? messages.error(error)
+            : messages.error
+        update(id, { variant: "destructive", ...failure })
+        throw error
       }
     },
-    []
+    [toast, update]
   )
 
-  const dismiss = React.useCallback((id: string) => {
-    setToasts((prev) => prev.filter((t) => t.id !== id))
+  const markAllRead = React.useCallback(() => {
+    setHistory((prev) =>
+      prev.some((e) => !e.read) ? prev.map((e) => ({ ...e, read: true })) : prev
+    )
+  }, [])
+
+  const clearHistory = React.useCallback(() => setHistory([]), [])
+
+  React.useEffect(() => {
+    const pending = timers.current
+    return () => {
+      pending.forEach((timer) => timer.timeout && clearTimeout(timer.timeout))
+      pending.clear()
+    }
   }, [])
 
+  const unreadCount = history.filter((e) => !e.read).length
+
   return (
-    <ToastContext.Provider value={{ toasts, toast, dismiss }}>
+    <ToastContext.Provider
+      value={{
+        toasts,
+        history,
+        unreadCount,
+        toast,
+        update,
+        promise,
+        dismiss,
+        markAllRead,
+        clearHistory,
+      }}
+    >
       {children}
-      <ToastContainer toasts={toasts} dismiss={dismiss} />
+      <ToastContainer
+        toasts={toasts}
+        dismiss={dismiss}
+        pause={pause}
+        resume={resume}
+      />
     </ToastContext.Provider>
   )
 }
@@ -62,14 +270,24 @@ export function useToast() {
 function ToastContainer({
   toasts,
   dismiss,
+  pause,
+  resume,
 }: {
   toasts: ToastProps[]
   dismiss: (id: string) => void
+  pause: (id: string) => void
+  resume: (id: string) => void
 }) {
   return (
-    <div className="fixed top-0 z-[100] flex max-h-screen w-full flex-col-reverse p-4 sm:bottom-0 sm:right-0 sm:top-auto sm:flex-col md:max-w-[420px]">
+    <div className="fixed top-0 z-[100] flex max-h-screen w-full flex-col-reverse gap-2 p-4 sm:bottom-0 sm:right-0 sm:top-auto sm:flex-col md:max-w-[420px]">
       {toasts.map((toast) => (
-        <Toast key={toast.id} {...toast} onDismiss={() => dismiss(toast.id)} />
+        <Toast
+          key={toast.id}
+          {...toast}
+          onDismiss={() => dismiss(toast.id)}
+          onPause={() => pause(toast.id)}
+          onResume={() => resume(toast.id)}
+        />
       ))}
     </div>
   )
@@ -79,14 +297,27 @@ function Toast({
   title,
   description,
   variant = "default",
+  actions,
   onDismiss,
-}: ToastProps & { onDismiss: () => void }) {
+  onPause,
+  onResume,
+}: ToastProps & {
+  onDismiss: () => void
+  onPause: () => void
+  onResume: () => void
+}) {
   return (
     <div
+      role={variant === "destructive" ? "alert" : "status"}
+      onMouseEnter={onPause}
+      onMouseLeave={onResume}
+      onFocus={onPause}
+      onBlur={onResume}
       className={cn(
         "group pointer-events-auto relative flex w-full items-center justify-between space-x-4 overflow-hidden rounded-md border p-6 pr-8 shadow-lg transition-all data-[swipe=cancel]:translate-x-0 data-[swipe=end]:translate-x-[var(--radix-toast-swipe-end-x)] data-[swipe=move]:translate-x-[var(--radix-toast-swipe-move-x)] data-[swipe=move]:transition-none data-[state=open]:animate-in data-[state=closed]:animate-out data-[swipe=end]:animate-out data-[state=closed]:fade-out-80 data-[state=closed]:slide-out-to-right-full data-[state=open]:slide-in-from-top-full data-[state=open]:sm:slide-in-from-bottom-full",
         {
-          "border-border bg-background": variant === "default",
+          "border-border bg-background":
+            variant === "default" || variant === "loading",
           "border-destructive/50 bg-destructive text-destructive-foreground":
             variant === "destructive",
           "border-accent/50 bg-accent/10 text-accent-foreground":
@@ -94,16 +325,38 @@ function Toast({
         }
       )}
     >
-      <div className="grid gap-1">
-        {title && (
-          <div className="text-sm font-semibold">{title}</div>
-        )}
-        {description && (
-          <div className="text-sm opacity-90">{description}</div>
+      <div className="flex items-start gap-3">
+        {variant === "loading" && (
+          <Loader2 className="mt-0.5 h-4 w-4 shrink-0 animate-spin text-muted-foreground" />
         )}
+        <div className="grid gap-1">
+          {title && (
+            <div className="text-sm font-semibold">{title}</div>
+          )}
+          {description && (
+            <div className="text-sm opacity-90">{description}</div>
+          )}
+        </div>
       </div>
+      {actions && actions.length > 0 && (
+        <div className="flex shrink-0 gap-2">
+          {actions.map((action) => (
+            <button
+              key={action.label}
+              onClick={() => {
+                action.onClick()
+                onDismiss()
+              }}
+              className="inline-flex h-8 shrink-0 items-center justify-center rounded-md border border-current/30 bg-transparent px-3 text-sm font-medium transition-colors hover:bg-foreground/10 focus:outline-none focus:ring-2"
+            >
+              {action.label}
+            </button>
+          ))}
+        </div>
+      )}
       <button
         onClick={onDismiss}
+        aria-label="Dismiss notification"
         className="absolute right-2 top-2 rounded-md p-1 text-foreground/50 opacity-0 transition-opacity hover:text-foreground focus:opacity-100 focus:outline-none focus:ring-2 group-hover:opacity-100"
       >
         <X className="h-4 w-4" />
@@ -111,4 +364,3 @@ function Toast({
     </div>
   )
 }
-
@@ -2,131 +2,293 @@
 
 import {
   createContext,
+  useCallback,
   useContext,
   useState,
   useEffect,
   ReactNode,
 } from "react";
 import { useRouter } from "next/navigation";
-import { authApi } from "@/lib/api/auth";
-import { tokenStorage } from "@/lib/auth/tokenStorage";
-
-interface User {
-  id: string;
-  email: string;
-  name: string;
-  roles?: string[];
-}
+import { authApi, isMfaChallengeExpired } from "@/lib/api/auth";
+import { ApiError, AuthError, ValidationError } from "@/lib/api/errors";
+import { onUnauthorized } from "@/lib/api/http";
+import { clearMutationQueue } from "@/lib/api/mutationQueue";
+import { clearQueryCache } from "@/lib/api/queryCache";
+import { isSessionRevoked, sessionsApi } from "@/lib/api/sessions";
+import {
+  ACCOUNT_DELETED_REASON,
+  IDLE_TIMEOUT_MS,
+  IDLE_TIMEOUT_REASON,
+  IDLE_WARNING_MS,
+  LOGIN_PATH,
+  SESSION_EXPIRED_REASON,
+  SESSION_REVOKED_REASON,
+  SessionResponse,
+  SessionUser,
+} from "@/lib/auth/session";
+import { sessionChannel, withRefreshLock } from "@/lib/auth/sessionChannel";
+import {
+  REFRESH_MARGIN_MS,
+  toClientExpiry,
+  useTokenRefresh,
+} from "@/hooks/useTokenRefresh";
+import { clearActivity, useIdleTimeout } from "@/hooks/useIdleTimeout";
+import { IdleTimeoutDialog } from "@/components/IdleTimeoutDialog";
+
+type User = SessionUser;
+
+export type LoginResult = "success" | "mfa_required";
+
+// "stale_session": the change was saved but the session still shows the
+// old address until the next refresh
+export type ChangeEmailResult = "success" | "stale_session";
 
 interface AuthContextType {
   user: User | null;
   isLoading: boolean;
   isAuthenticated: boolean;
-  login: (email: string, password: string) => Promise<boolean>;
-  logout: () => void;
+  // Rejects with the ApiError so the page can tell bad credentials from a
+  // lockout or an outage
+  login: (email: string, password: string) => Promise<LoginResult>;
+  // Second step when login returned "mfa_required". False for a wrong code;
+  // other failures reject with the ApiError
+  verifyMfa: (code: string, options?: { recovery?: boolean }) => Promise<boolean>;
+  // `reason` is shown on /login, e.g. after an idle timeout
+  logout: (reason?: string) => void;
+  // Revokes every session of this account, this one included
+  signOutEverywhere: () => Promise<void>;
+  // Refreshes the session when the access token is close to expiry; `force`
+  // always rotates it, e.g. after the backend changed the user's claims
+  refreshSession: (options?: { force?: boolean }) => Promise<void>;
   signup: (name: string, email: string, password: string) => Promise<boolean>;
+  // Account changes reject with the ApiError so forms can show the reason
+  changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  changeEmail: (email: string, password: string) => Promise<ChangeEmailResult>;
+  deleteAccount: (password: string) => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 const isBrowser = () => typeof window !== "undefined";
 
-interface JwtPayload {
-  sub?: string | number;
-  email?: string;
-  name?: string;
-  roles?: string[];
-  authorities?: string[];
-  userId?: string | number;
-  [key: string]: unknown;
-}
+// Only for a deliberate sign-out or a deleted account. Entries are keyed by
+// user id, so an expired or idle session keeps them for the next sign-in.
+// Failing to clear them shouldn't block signing out
+const discardOfflineChanges = () =>
+  clearMutationQueue().catch((error) =>
+    console.error("Failed to clear offline changes:", error)
+  );
 
-const decodeJwt = (token: string): JwtPayload | null => {
-  try {
-    const payload = token.split(".")[1];
-    if (!payload) return null;
-    const decoded = atob(payload.replace(/-/g, "+").replace(/_/g, "/"));
-    return JSON.parse(decoded);
-  } catch (error) {
-    console.error("Failed to decode JWT:", error);
-    return null;
-  }
-};
-
-const deriveUser = (token: string, fallback: Partial<User>): User => {
-  const payload = decodeJwt(token) || {};
-  const id =
-    payload.userId?.toString() ||
-    payload.sub?.toString() ||
-    fallback.id ||
-    fallback.email ||
-    "";
-  const email = payload.email || fallback.email || "";
-  const name = payload.name || fallback.name || email.split("@")[0] || "";
-  const roles: string[] | undefined = payload.roles || payload.authorities;
-
-  return {
-    id,
-    email,
-    name,
-    roles,
-  };
-};
+// Left behind by builds that kept the session in localStorage
+const LEGACY_STORAGE_KEYS = ["user", "accessToken", "refreshToken", "loginTime"];
+
+// Minimum gap between backend checks when the tab becomes visible again
+const REVALIDATE_INTERVAL_MS = 60_000;
 
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  // Access token expiry on the client's clock, drives the refresh timer
+  const [expiresAt, setExpiresAt] = useState<number | null>(null);
   const router = useRouter();
 
-  // Check for existing session on mount
-  useEffect(() => {
-    const checkSession = () => {
-      if (!isBrowser()) {
-        setIsLoading(false);
+  const applySession = useCallback((session: SessionResponse) => {
+    setUser(session.user);
+    setExpiresAt(toClientExpiry(session));
+  }, []);
+
+  const clearSession = useCallback(() => {
+    setUser(null);
+    setExpiresAt(null);
+    clearQueryCache();
+  }, []);
+
+  const redirectToLogin = useCallback(
+    (reason?: string) => {
+      if (!reason) {
+        router.push(LOGIN_PATH);
         return;
       }
+      const params = new URLSearchParams({ reason });
+      if (isBrowser()) {
+        params.set("next", `${window.location.pathname}${window.location.search}`);
+      }
+      router.push(`${LOGIN_PATH}?${params.toString()}`);
+    },
+    [router]
+  );
+
+  // Check for existing session on mount. Tokens are httpOnly cookies, so
+  // the user comes from the session endpoint rather than the JWT itself
+  useEffect(() => {
+    let cancelled = false;
 
-      const storedUser = localStorage.getItem("user");
-      const accessToken = tokenStorage.getAccessToken();
+    if (isBrowser()) {
+      LEGACY_STORAGE_KEYS.forEach((key) => localStorage.removeItem(key));
+    }
 
-      if (storedUser && accessToken) {
-        try {
-          const parsedUser = JSON.parse(storedUser) as User;
-          setUser(parsedUser);
-        } catch {
-          localStorage.removeItem("user");
+    const checkSession = async () => {
+      try {
+        const session = await authApi.me();
+        if (!cancelled) applySession(session);
+      } catch (error) {
+        if (cancelled) return;
+        setUser(null);
+        // The session endpoint cleared the cookies; re-run the proxy so a
+        // protected page sends the user back to login
+        if (error instanceof ApiError && error.status === 401) {
+          router.refresh();
         }
+      } finally {
+        if (!cancelled) setIsLoading(false);
       }
-
-      setIsLoading(false);
     };
 
     checkSession();
-  }, []);
+    return () => {
+      cancelled = true;
+    };
+  }, [router, applySession]);
 
-  const login = async (email: string, password: string): Promise<boolean> => {
-    try {
-      setIsLoading(true);
-      const tokens = await authApi.login({ email, password });
-      tokenStorage.setTokens(tokens);
-      const derivedUser = deriveUser(tokens.accessToken, {
-        email,
-        name: email.split("@")[0],
+  // Tabs share the token cookies, so only one may rotate them at a time.
+  // Whoever gets the lock second usually finds fresh cookies already and
+  // just adopts them.
+  const refreshSession = useCallback(
+    async ({ force = false }: { force?: boolean } = {}) => {
+      await withRefreshLock(async () => {
+        if (!force) {
+          const current = await authApi.me();
+          const currentExpiry = toClientExpiry(current);
+          if (currentExpiry !== null && currentExpiry - Date.now() > REFRESH_MARGIN_MS) {
+            applySession(current);
+            return;
+          }
+        }
+        const session = await authApi.refresh();
+        applySession(session);
+        sessionChannel.post({ type: "refreshed", session });
       });
+    },
+    [applySession]
+  );
 
-      if (!derivedUser.id) {
-        throw new Error("User information missing in token");
-      }
+  // Refresh failed for good or the session was revoked elsewhere: clear it
+  // instead of keeping a user whose requests will all be rejected, and tell
+  // them why on /login
+  const expireSession = useCallback(
+    async (reason: string = SESSION_EXPIRED_REASON) => {
+      await authApi.logout();
+      clearSession();
+      sessionChannel.post({ type: "logout", reason });
+      redirectToLogin(reason);
+    },
+    [clearSession, redirectToLogin]
+  );
 
-      if (isBrowser()) {
-        localStorage.setItem("user", JSON.stringify(derivedUser));
+  useEffect(
+    () =>
+      sessionChannel.subscribe((message) => {
+        switch (message.type) {
+          case "login":
+            applySession(message.session);
+            // Lets the proxy move this tab off /login or /signup
+            router.refresh();
+            break;
+          case "refreshed":
+            applySession(message.session);
+            break;
+          case "logout":
+            clearSession();
+            redirectToLogin(message.reason);
+            break;
+        }
+      }),
+    [applySession, clearSession, redirectToLogin, router]
+  );
+
+  useTokenRefresh(expiresAt, refreshSession, expireSession);
+
+  const isAuthenticated = !!user;
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    // Several in-flight requests can fail together; expire only once
+    let handled = false;
+    return onUnauthorized((error) => {
+      if (handled) return;
+      handled = true;
+      expireSession(
+        isSessionRevoked(error) ? SESSION_REVOKED_REASON : SESSION_EXPIRED_REASON
+      );
+    });
+  }, [isAuthenticated, expireSession]);
+
+  // A session revoked from another device only fails on its next backend
+  // request, so make one when the user comes back to the tab. A 401 reaches
+  // the onUnauthorized handler above; other failures don't matter here.
+  useEffect(() => {
+    if (!isAuthenticated || !isBrowser()) return;
+    let lastCheck = Date.now();
+
+    const handleVisibility = () => {
+      if (document.visibilityState !== "visible") return;
+      if (Date.now() - lastCheck < REVALIDATE_INTERVAL_MS) return;
+      lastCheck = Date.now();
+      sessionsApi.list().catch(() => undefined);
+    };
+
+    document.addEventListener("visibilitychange", handleVisibility);
+    return () =>
+      document.removeEventListener("visibilitychange", handleVisibility);
+  }, [isAuthenticated]);
+
+  const completeLogin = (session: SessionResponse) => {
+    applySession(session);
+    sessionChannel.post({ type: "login", session });
+  };
+
+  const login = async (
+    email: string,
+    password: string
+  ): Promise<LoginResult> => {
+    try {
+      setIsLoading(true);
+      const response = await authApi.login({ email, password });
+      if ("mfaRequired" in response) {
+        return "mfa_required";
       }
+      completeLogin(response);
+      return "success";
+    } catch (error) {
+      console.error("Login error:", error);
+      throw error;
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
-      setUser(derivedUser);
+  const verifyMfa = async (
+    code: string,
+    options: { recovery?: boolean } = {}
+  ): Promise<boolean> => {
+    try {
+      setIsLoading(true);
+      const session = await authApi.verifyMfa(
+        options.recovery ? { recoveryCode: code } : { code }
+      );
+      completeLogin(session);
       return true;
     } catch (error) {
-      console.error("Login error:", error);
-      return false;
+      console.error("Two-factor verification error:", error);
+      // A wrong code; anything else, e.g. an expired challenge or an
+      // outage, is for the form to explain
+      if (
+        (error instanceof ValidationError || error instanceof AuthError) &&
+        !isMfaChallengeExpired(error)
+      ) {
+        return false;
+      }
+      throw error;
     } finally {
       setIsLoading(false);
     }
@@ -139,8 +301,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   ): Promise<boolean> => {
     try {
       setIsLoading(true);
+      // New accounts verify their email before signing in; the signup page
+      // sends them to /check-email
       await authApi.signup({ name, email, password });
-      return login(email, password);
+      return true;
     } catch (error) {
       console.error("Signup error:", error);
       return false;
@@ -149,27 +313,98 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const logout = () => {
-    authApi.logout();
+  const changePassword = async (
+    currentPassword: string,
+    newPassword: string
+  ) => {
+    await authApi.changePassword({ currentPassword, newPassword });
+  };
+
+  const changeEmail = async (
+    email: string,
+    password: string
+  ): Promise<ChangeEmailResult> => {
+    await authApi.changeEmail({ email, password });
+    // The new address and its unverified state come with the next token.
+    // The change is saved either way, so a failed refresh isn't an error
+    try {
+      await refreshSession({ force: true });
+      return "success";
+    } catch (error) {
+      console.error("Session refresh after email change failed:", error);
+      return "stale_session";
+    }
+  };
+
+  const deleteAccount = async (password: string) => {
+    await authApi.deleteAccount({ password });
+    await authApi.logout();
+    await discardOfflineChanges();
     if (isBrowser()) {
-      localStorage.removeItem("user");
-      localStorage.removeItem("loginTime");
+      clearActivity();
     }
-    tokenStorage.clearTokens();
-    setUser(null);
-    router.push("/login");
+    clearSession();
+    sessionChannel.post({ type: "logout", reason: ACCOUNT_DELETED_REASON });
+    router.push(`${LOGIN_PATH}?reason=${ACCOUNT_DELETED_REASON}`);
+  };
+
+  const signOut = async (
+    reason?: string,
+    { keepOfflineChanges = false }: { keepOfflineChanges?: boolean } = {}
+  ) => {
+    // Wait for the cookies to be cleared, otherwise the proxy would bounce
+    // the login page straight back to the dashboard
+    await authApi.logout();
+    if (!keepOfflineChanges) {
+      await discardOfflineChanges();
+    }
+    if (isBrowser()) {
+      clearActivity();
+    }
+    clearSession();
+    sessionChannel.post({ type: "logout", reason });
+    redirectToLogin(reason);
+  };
+
+  const logout = (reason?: string) => signOut(reason);
+
+  const { remaining: idleRemaining, stayActive } = useIdleTimeout(
+    isAuthenticated,
+    IDLE_TIMEOUT_MS,
+    IDLE_WARNING_MS,
+    () => signOut(IDLE_TIMEOUT_REASON, { keepOfflineChanges: true })
+  );
+
+  const signOutEverywhere = async () => {
+    await sessionsApi.revokeAll();
+    await logout();
   };
 
   const value: AuthContextType = {
     user,
     isLoading,
-    isAuthenticated: !!user,
+    isAuthenticated,
     login,
+    verifyMfa,
     logout,
+    signOutEverywhere,
+    refreshSession,
     signup,
+    changePassword,
+    changeEmail,
+    deleteAccount,
   };
 
-  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+      <IdleTimeoutDialog
+        remaining={idleRemaining}
+        onStay={stayActive}
+        onSignOut={() => logout()}
+      />
+    </AuthContext.Provider>
+  );
 }
 
 export function useAuth() {
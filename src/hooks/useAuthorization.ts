@@ -0,0 +1,48 @@
+"use client";
+
+import { useCallback, useMemo } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  Permission,
+  Role,
+  VERIFIED_ONLY_PERMISSIONS,
+  hasPermission,
+  normalizeRoles,
+} from "@/lib/auth/permissions";
+
+/**
+ * Role and permission checks for the signed-in user. UI gating only; the
+ * backend enforces the same rules on every request.
+ */
+export function useAuthorization() {
+  const { user } = useAuth();
+  const rawRoles = user?.roles;
+
+  const roles = useMemo(() => normalizeRoles(rawRoles), [rawRoles]);
+
+  // Only an explicit `false` counts; tokens without the claim predate
+  // verification
+  const isUnverified = user?.emailVerified === false;
+
+  const can = useCallback(
+    (permission: Permission) => {
+      if (!user) return false;
+      if (isUnverified && VERIFIED_ONLY_PERMISSIONS.includes(permission)) {
+        return false;
+      }
+      return hasPermission(rawRoles, permission);
+    },
+    [user, rawRoles, isUnverified]
+  );
+
+  const hasRole = useCallback(
+    (role: Role | Role[]) => {
+      if (!user) return false;
+      const wanted = Array.isArray(role) ? role : [role];
+      return roles.some((r) => wanted.includes(r));
+    },
+    [user, roles]
+  );
+
+  return { roles, can, hasRole, isUnverified };
+}
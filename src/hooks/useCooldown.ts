@@ -0,0 +1,56 @@
+"use client";
+
+import { useCallback, useEffect, useState, useSyncExternalStore } from "react";
+
+const STORAGE_PREFIX = "cooldown:";
+
+// `storage` events only reach other tabs; this covers the current one
+const listeners = new Set<() => void>();
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  window.addEventListener("storage", listener);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", listener);
+  };
+};
+
+/**
+ * Throttles an action (e.g. resending an email) per `key`. The deadline is
+ * kept in localStorage so reloading the page or opening another tab doesn't
+ * reset it.
+ */
+export function useCooldown(key: string) {
+  const storageKey = `${STORAGE_PREFIX}${key}`;
+  const until = useSyncExternalStore(
+    subscribe,
+    () => Number(localStorage.getItem(storageKey)) || 0,
+    () => 0
+  );
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (until <= Date.now()) return;
+    const interval = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= until) clearInterval(interval);
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [until]);
+
+  const start = useCallback(
+    (seconds: number) => {
+      const current = Date.now();
+      localStorage.setItem(storageKey, String(current + seconds * 1000));
+      setNow(current);
+      listeners.forEach((listener) => listener());
+    },
+    [storageKey]
+  );
+
+  const remaining = Math.max(Math.ceil((until - now) / 1000), 0);
+
+  return { remaining, isCoolingDown: remaining > 0, start };
+}
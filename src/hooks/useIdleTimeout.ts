@@ -0,0 +1,89 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+
+// Shared by all tabs, so activity in one keeps the others signed in too
+const LAST_ACTIVITY_KEY = "lastActivity";
+const ACTIVITY_EVENTS = [
+  "pointerdown",
+  "pointermove",
+  "keydown",
+  "scroll",
+  "touchstart",
+] as const;
+// Pointer moves fire constantly; localStorage only needs a rough timestamp
+const ACTIVITY_WRITE_INTERVAL_MS = 5_000;
+
+const readLastActivity = () =>
+  Number(localStorage.getItem(LAST_ACTIVITY_KEY)) || Date.now();
+
+const recordActivity = () =>
+  localStorage.setItem(LAST_ACTIVITY_KEY, String(Date.now()));
+
+export const clearActivity = () => localStorage.removeItem(LAST_ACTIVITY_KEY);
+
+/**
+ * Calls `onTimeout` after `timeoutMs` without user activity in any tab.
+ * During the last `warningMs` it returns the seconds left so the caller can
+ * warn; from then on only `stayActive` (not incidental input) resets it.
+ * A `timeoutMs` of 0 disables tracking.
+ */
+export function useIdleTimeout(
+  enabled: boolean,
+  timeoutMs: number,
+  warningMs: number,
+  onTimeout: () => void
+) {
+  const [remaining, setRemaining] = useState<number | null>(null);
+  const onTimeoutRef = useRef(onTimeout);
+
+  useEffect(() => {
+    onTimeoutRef.current = onTimeout;
+  }, [onTimeout]);
+
+  useEffect(() => {
+    if (!enabled || timeoutMs <= 0) return;
+
+    // A new session starts active, whatever the last one left behind
+    recordActivity();
+    let lastWrite = Date.now();
+    let warning = false;
+
+    const handleActivity = () => {
+      if (warning) return;
+      const now = Date.now();
+      if (now - lastWrite < ACTIVITY_WRITE_INTERVAL_MS) return;
+      lastWrite = now;
+      recordActivity();
+    };
+
+    const interval = setInterval(() => {
+      const left = readLastActivity() + timeoutMs - Date.now();
+      if (left <= 0) {
+        clearInterval(interval);
+        setRemaining(null);
+        onTimeoutRef.current();
+        return;
+      }
+      warning = left <= warningMs;
+      setRemaining(warning ? Math.ceil(left / 1000) : null);
+    }, 1000);
+
+    ACTIVITY_EVENTS.forEach((event) =>
+      window.addEventListener(event, handleActivity, { passive: true })
+    );
+    return () => {
+      clearInterval(interval);
+      ACTIVITY_EVENTS.forEach((event) =>
+        window.removeEventListener(event, handleActivity)
+      );
+    };
+  }, [enabled, timeoutMs, warningMs]);
+
+  const stayActive = useCallback(() => {
+    recordActivity();
+    setRemaining(null);
+  }, []);
+
+  return { remaining: enabled ? remaining : null, stayActive };
+}
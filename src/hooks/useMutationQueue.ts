@@ -0,0 +1,25 @@
+"use client";
+
+import { useMemo, useSyncExternalStore } from "react";
+import {
+  getQueuedMutations,
+  getServerQueuedMutations,
+  subscribeMutationQueue,
+} from "@/lib/api/mutationQueue";
+
+/**
+ * Offline changes still waiting to sync for `userId`, oldest first,
+ * including ones held back by a conflict.
+ */
+export function useMutationQueue(userId: number | null) {
+  const queue = useSyncExternalStore(
+    subscribeMutationQueue,
+    getQueuedMutations,
+    getServerQueuedMutations
+  );
+
+  return useMemo(
+    () => queue.filter((entry) => entry.userId === userId),
+    [queue, userId]
+  );
+}
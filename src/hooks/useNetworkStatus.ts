@@ -0,0 +1,34 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import { isServerReachable, onConnectivityChange } from "@/lib/api/http";
+
+const subscribe = (listener: () => void) => {
+  window.addEventListener("online", listener);
+  window.addEventListener("offline", listener);
+  const unsubscribe = onConnectivityChange(listener);
+  return () => {
+    window.removeEventListener("online", listener);
+    window.removeEventListener("offline", listener);
+    unsubscribe();
+  };
+};
+
+/**
+ * The browser's connection state plus whether apiFetch could reach the
+ * backend on its last request. Both are assumed fine during prerendering.
+ */
+export function useNetworkStatus() {
+  const isOnline = useSyncExternalStore(
+    subscribe,
+    () => navigator.onLine,
+    () => true
+  );
+  const reachable = useSyncExternalStore(
+    subscribe,
+    isServerReachable,
+    () => true
+  );
+
+  return { isOnline, isServerReachable: reachable };
+}
@@ -0,0 +1,66 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/components/ui/toast";
+import { replayQueue } from "@/lib/api/mutationQueue";
+import { useMutationQueue } from "./useMutationQueue";
+import { useNetworkStatus } from "./useNetworkStatus";
+
+// The backend can come back without the browser noticing
+const RETRY_INTERVAL_MS = 30_000;
+
+/**
+ * Replays changes queued while offline whenever there are some and the
+ * connection looks usable, and reports what synced and what conflicted.
+ * Mount once, on the page that hosts the managers.
+ */
+export function useOfflineSync() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { isOnline, isServerReachable } = useNetworkStatus();
+  const userId = user?.id ? Number(user.id) : null;
+  const queue = useMutationQueue(userId);
+  const pendingCount = queue.filter((entry) => entry.status === "pending").length;
+  // The effect re-runs as entries sync; one replay reports once
+  const syncing = useRef(false);
+
+  useEffect(() => {
+    if (!userId || Number.isNaN(userId) || pendingCount === 0 || !isOnline) {
+      return;
+    }
+
+    const sync = async () => {
+      if (syncing.current) return;
+      syncing.current = true;
+      try {
+        const { synced, conflicts } = await replayQueue(userId);
+        if (synced.length > 0) {
+          toast({
+            title: "Changes synced",
+            description:
+              synced.length === 1
+                ? `${synced[0].label} was saved.`
+                : `${synced.length} offline changes were saved.`,
+            variant: "success",
+          });
+        }
+        conflicts.forEach((entry) =>
+          toast({
+            title: "Sync conflict",
+            description: `${entry.label} couldn't be synced. ${entry.conflict?.message} Review it in its table.`,
+            variant: "destructive",
+          })
+        );
+      } catch (err) {
+        console.error("Failed to sync offline changes:", err);
+      } finally {
+        syncing.current = false;
+      }
+    };
+
+    sync();
+    const interval = setInterval(sync, RETRY_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [userId, pendingCount, isOnline, isServerReachable, toast]);
+}
@@ -0,0 +1,77 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from "react";
+import { QUERY_STALE_TIME_MS } from "@/lib/api/config";
+import {
+  QueryKey,
+  fetchQuery,
+  getQueryState,
+  hashKey,
+  subscribeQuery,
+} from "@/lib/api/queryCache";
+
+interface UseQueryOptions {
+  // Skip fetching, e.g. until the user is known
+  enabled?: boolean;
+  staleTime?: number;
+}
+
+/**
+ * Reads `key` from the shared query cache, fetching when it is missing or
+ * stale. Cached data is shown immediately while a refetch runs in the
+ * background (stale-while-revalidate). `fetcher` may change between renders;
+ * only a new key triggers a fetch.
+ */
+export function useQuery<T>(
+  key: QueryKey,
+  fetcher: () => Promise<T>,
+  { enabled = true, staleTime = QUERY_STALE_TIME_MS }: UseQueryOptions = {}
+) {
+  const hash = hashKey(key);
+  // Stable for as long as the key's contents are
+  const queryKey = useMemo(() => JSON.parse(hash) as QueryKey, [hash]);
+  const fetcherRef = useRef(fetcher);
+
+  useEffect(() => {
+    fetcherRef.current = fetcher;
+  });
+
+  const subscribe = useCallback(
+    (listener: () => void) => subscribeQuery(queryKey, listener),
+    [queryKey]
+  );
+  const state = useSyncExternalStore(
+    subscribe,
+    () => getQueryState<T>(queryKey),
+    () => getQueryState<T>(queryKey)
+  );
+
+  useEffect(() => {
+    if (!enabled) return;
+    // Failures are surfaced through `error`
+    fetchQuery(queryKey, () => fetcherRef.current(), { staleTime }).catch(
+      () => undefined
+    );
+  }, [enabled, queryKey, staleTime]);
+
+  const refetch = useCallback(
+    () =>
+      fetchQuery(queryKey, () => fetcherRef.current(), {
+        staleTime,
+        force: true,
+      }),
+    [queryKey, staleTime]
+  );
+
+  return {
+    data: state.data,
+    error: state.error,
+    // Nothing to show yet; background refetches don't count
+    isLoading:
+      enabled &&
+      state.data === undefined &&
+      (state.isFetching || state.error === undefined),
+    isFetching: state.isFetching,
+    refetch,
+  };
+}
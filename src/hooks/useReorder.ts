@@ -0,0 +1,96 @@
+"use client";
+
+import { useCallback, useState } from "react";
+
+export interface Orderable {
+  id: number;
+  displayOrder: number;
+}
+
+export const sortByDisplayOrder = <T extends Orderable>(items: T[]): T[] =>
+  [...items].sort((a, b) => a.displayOrder - b.displayOrder || a.id - b.id);
+
+// With paginated lists `items` is only the current page, so fall back to the
+// total count when it is larger than anything seen locally.
+export const nextDisplayOrder = (
+  items: Orderable[],
+  totalElements = 0
+): number =>
+  items.reduce(
+    (max, item) => Math.max(max, item.displayOrder + 1),
+    totalElements
+  );
+
+// Reuses the slots the items already occupy so reordering one page of a
+// paginated list doesn't collide with rows on other pages.
+const assignDisplayOrder = <T extends Orderable>(
+  previous: T[],
+  next: T[]
+): T[] => {
+  const slots = previous.map((item) => item.displayOrder).sort((a, b) => a - b);
+  return next.map((item, index) => {
+    const floor = index > 0 ? slots[index - 1] + 1 : slots[0];
+    slots[index] = Math.max(slots[index], floor);
+    return { ...item, displayOrder: slots[index] };
+  });
+};
+
+/**
+ * Drag-and-drop and keyboard reordering for table rows. The drag handle
+ * starts the drag and every row acts as a drop target; `onReorder`
+ * receives the reordered list with `displayOrder` reassigned.
+ */
+export function useReorder<T extends Orderable>(
+  items: T[],
+  onReorder: (next: T[]) => void
+) {
+  const [draggingId, setDraggingId] = useState<number | null>(null);
+  const [overId, setOverId] = useState<number | null>(null);
+
+  const move = useCallback(
+    (from: number, to: number) => {
+      if (from === to || to < 0 || to >= items.length) return;
+      const next = [...items];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      onReorder(assignDisplayOrder(items, next));
+    },
+    [items, onReorder]
+  );
+
+  const resetDrag = () => {
+    setDraggingId(null);
+    setOverId(null);
+  };
+
+  const getHandleProps = (item: T) => ({
+    draggable: true,
+    onDragStart: (e: React.DragEvent<HTMLElement>) => {
+      e.dataTransfer.effectAllowed = "move";
+      e.dataTransfer.setData("text/plain", String(item.id));
+      const row = e.currentTarget.closest("tr");
+      if (row) e.dataTransfer.setDragImage(row, 0, 0);
+      setDraggingId(item.id);
+    },
+    onDragEnd: resetDrag,
+  });
+
+  const getRowProps = (item: T) => ({
+    onDragOver: (e: React.DragEvent<HTMLElement>) => {
+      if (draggingId === null) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = "move";
+      if (overId !== item.id) setOverId(item.id);
+    },
+    onDrop: (e: React.DragEvent<HTMLElement>) => {
+      e.preventDefault();
+      if (draggingId === null) return;
+      const from = items.findIndex((entry) => entry.id === draggingId);
+      const to = items.findIndex((entry) => entry.id === item.id);
+      resetDrag();
+      if (from !== -1 && to !== -1) move(from, to);
+    },
+  });
+
+  return { draggingId, overId, move, getHandleProps, getRowProps };
+}
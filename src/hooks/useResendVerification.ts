@@ -0,0 +1,45 @@
+"use client";
+
+import { useState } from "react";
+import { useToast } from "@/components/ui/toast";
+import { authApi, describeAuthError } from "@/lib/api/auth";
+import { VERIFICATION_RESEND_COOLDOWN_SECONDS } from "@/lib/auth/session";
+import { useCooldown } from "./useCooldown";
+
+/**
+ * Resends the verification email for `email`, at most once per cooldown.
+ */
+export function useResendVerification(email: string) {
+  const [isSending, setIsSending] = useState(false);
+  const { remaining, isCoolingDown, start } = useCooldown(
+    `verification:${email.toLowerCase()}`
+  );
+  const { toast } = useToast();
+
+  const resend = async () => {
+    if (!email || isSending || isCoolingDown) return;
+    try {
+      setIsSending(true);
+      await authApi.resendVerification({ email });
+      start(VERIFICATION_RESEND_COOLDOWN_SECONDS);
+      toast({
+        title: "Verification email sent",
+        description: `We sent a new link to ${email}.`,
+        variant: "success",
+      });
+    } catch (error) {
+      toast({
+        title: "Couldn't resend email",
+        description: describeAuthError(
+          error,
+          "Unable to resend the verification email. Please try again."
+        ),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return { resend, remaining, isSending, canResend: !!email && !isCoolingDown };
+}
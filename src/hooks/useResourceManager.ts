@@ -0,0 +1,587 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  DefaultValues,
+  FieldValues,
+  Resolver,
+  useForm,
+} from "react-hook-form";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/components/ui/toast";
+import {
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+  applyFieldErrors,
+  describeApiError,
+} from "@/lib/api/errors";
+import {
+  QueuedMutation,
+  discardMutation,
+  enqueueMutation,
+  isOfflineError,
+  keepMutation,
+} from "@/lib/api/mutationQueue";
+import {
+  QueryKey,
+  invalidateQueries,
+  setQueryData,
+} from "@/lib/api/queryCache";
+import { ResourceQuery } from "@/lib/api/resource";
+import { DisplayOrderUpdate, PaginatedResponse } from "@/types/api";
+import { useAuthorization } from "./useAuthorization";
+import { useMutationQueue } from "./useMutationQueue";
+import { useQuery } from "./useQuery";
+import { Orderable, sortByDisplayOrder, useReorder } from "./useReorder";
+import { useTableQuery } from "./useTableQuery";
+
+const UNDO_WINDOW_MS = 5000;
+
+interface PendingDelete {
+  toastId: string;
+}
+
+export interface ResourceClient<TEntity, TRequest> {
+  basePath: string;
+  list(query: ResourceQuery): Promise<PaginatedResponse<TEntity>>;
+  create(payload: TRequest): Promise<TEntity>;
+  update(id: number, payload: Partial<TRequest>): Promise<TEntity>;
+  delete(id: number): Promise<void>;
+  reorder(items: DisplayOrderUpdate[]): Promise<void>;
+}
+
+export interface ResourceLabels {
+  // Used in toast titles and buttons, e.g. "Project"
+  title: string;
+  // Used in sentences, e.g. "project" / "projects"
+  noun: string;
+  plural: string;
+  createDescription: string;
+  editDescription: string;
+}
+
+export interface ToRequestContext<TEntity> {
+  userId: number;
+  editing: TEntity | null;
+  items: TEntity[];
+  totalElements: number;
+}
+
+export interface PaginationState {
+  totalElements: number;
+  totalPages: number;
+}
+
+interface UseResourceManagerOptions<
+  TEntity extends Orderable,
+  TRequest,
+  TValues extends FieldValues,
+> {
+  client: ResourceClient<TEntity, TRequest>;
+  labels: ResourceLabels;
+  // Namespace for the table's URL params and cached pages, e.g. "projects"
+  queryKey: string;
+  resolver: Resolver<TValues>;
+  defaultValues: TValues;
+  getName: (entity: TEntity) => string;
+  toFormValues: (entity: TEntity) => TValues;
+  toRequest: (values: TValues, context: ToRequestContext<TEntity>) => TRequest;
+  // Backend field names that differ from the form's, for validation errors
+  fieldMap?: Record<string, string>;
+}
+
+/**
+ * List/create/update/delete/reorder lifecycle shared by the dashboard
+ * managers. Table state is updated optimistically and rolled back when the
+ * request fails; the dialog only closes once the server confirms a save.
+ * Deletes are deferred for a few seconds so they can be undone.
+ *
+ * Pages are kept in the query cache, so returning to a tab shows the last
+ * data at once while it revalidates. Successful mutations invalidate every
+ * cached page of the resource.
+ *
+ * Creates and updates that fail because the backend is unreachable are
+ * queued on the device instead (see mutationQueue) and shown as pending
+ * rows until they sync.
+ *
+ * `client`, `labels` and the mapping functions should be module-level
+ * constants so the loader isn't recreated on every render.
+ */
+export function useResourceManager<
+  TEntity extends Orderable,
+  TRequest,
+  TValues extends FieldValues,
+>({
+  client,
+  labels,
+  queryKey,
+  resolver,
+  defaultValues,
+  getName,
+  toFormValues,
+  toRequest,
+  fieldMap,
+}: UseResourceManagerOptions<TEntity, TRequest, TValues>) {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<TEntity | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const query = useTableQuery(queryKey);
+  const { page, size, sort, search, isDefaultOrder, setPage } = query;
+  const { user } = useAuth();
+  const { toast, dismiss } = useToast();
+  const { can } = useAuthorization();
+  const canEdit = can("content:write");
+  const pendingDeletes = useRef(new Map<number, PendingDelete>());
+
+  const userId = user?.id ? Number(user.id) : null;
+
+  const form = useForm<TValues>({
+    resolver,
+    defaultValues: defaultValues as DefaultValues<TValues>,
+  });
+
+  const hasUser = !!userId && !Number.isNaN(userId);
+  const listKey = useMemo<QueryKey>(
+    () => [queryKey, userId, { page, size, sort, search }],
+    [queryKey, userId, page, size, sort, search]
+  );
+
+  const fetchPage = async () => {
+    try {
+      const response = await client.list({
+        userId: userId as number,
+        page,
+        size,
+        sort,
+        search: search || undefined,
+      });
+      // Step back when the requested page no longer exists, e.g. after
+      // deleting the last row on the final page
+      if (response.content.length === 0 && page > 0 && response.totalPages > 0) {
+        setPage(Math.max(response.totalPages - 1, 0));
+      }
+      // Rows waiting out their undo window shouldn't reappear on refetch
+      return {
+        ...response,
+        content: response.content.filter(
+          (item) => !pendingDeletes.current.has(item.id)
+        ),
+      };
+    } catch (err) {
+      console.error(`Failed to load ${labels.plural}:`, err);
+      throw err;
+    }
+  };
+
+  const {
+    data,
+    error: loadError,
+    isLoading,
+    refetch,
+  } = useQuery(listKey, fetchPage, { enabled: hasUser });
+
+  const queue = useMutationQueue(userId);
+  // Queued changes for this resource by entity id
+  const queued = useMemo(
+    () =>
+      new Map(
+        queue
+          .filter((entry) => entry.resource === queryKey)
+          .map((entry) => [entry.entityId, entry])
+      ),
+    [queue, queryKey]
+  );
+
+  // The server page with queued changes laid over it; queued creates go at
+  // the end of the last page
+  const items = useMemo(() => {
+    const content = (data?.content ?? []).map((item) => {
+      const entry = queued.get(item.id);
+      return entry ? ({ ...item, ...entry.body } as TEntity) : item;
+    });
+    if (!data || page >= data.totalPages - 1) {
+      const ids = new Set(content.map((item) => item.id));
+      queued.forEach((entry) => {
+        if (entry.method === "POST" && !ids.has(entry.entityId)) {
+          content.push({ ...entry.body, id: entry.entityId } as unknown as TEntity);
+        }
+      });
+    }
+    return isDefaultOrder ? sortByDisplayOrder(content) : content;
+  }, [data, queued, page, isDefaultOrder]);
+
+  const getSyncState = useCallback(
+    (entity: TEntity): QueuedMutation | undefined => queued.get(entity.id),
+    [queued]
+  );
+
+  const pagination: PaginationState = {
+    totalElements: data?.totalElements ?? 0,
+    totalPages: data?.totalPages ?? 0,
+  };
+
+  // A failed background refetch keeps showing the cached page
+  const error =
+    loadError && !data ? `Unable to load ${labels.plural}. Please try again.` : null;
+
+  const updatePage = useCallback(
+    (
+      updater: (current: PaginatedResponse<TEntity>) => PaginatedResponse<TEntity>
+    ) =>
+      setQueryData<PaginatedResponse<TEntity>>(
+        listKey,
+        (current) => current && updater(current)
+      ),
+    [listKey]
+  );
+
+  const setItems = useCallback(
+    (updater: (current: TEntity[]) => TEntity[]) =>
+      updatePage((current) => ({ ...current, content: updater(current.content) })),
+    [updatePage]
+  );
+
+  const adjustTotal = (delta: number) =>
+    updatePage((current) => ({
+      ...current,
+      totalElements: Math.max(current.totalElements + delta, 0),
+    }));
+
+  const invalidate = useCallback(
+    () => invalidateQueries([queryKey]),
+    [queryKey]
+  );
+
+  const reload = useCallback(() => {
+    refetch().catch(() => undefined);
+  }, [refetch]);
+
+  // Keeps a change the server couldn't receive. Returns false if it can't
+  // be stored on the device either
+  const queueChange = async (
+    payload: TRequest,
+    target: TEntity | null,
+    tempId: number
+  ) => {
+    const entity = {
+      ...target,
+      ...payload,
+      id: target ? target.id : tempId,
+    } as unknown as TEntity;
+    try {
+      await enqueueMutation({
+        userId: userId as number,
+        resource: queryKey,
+        basePath: client.basePath,
+        entityId: entity.id,
+        method: target ? "PUT" : "POST",
+        body: payload as unknown as Record<string, unknown>,
+        base: target ? (target as unknown as Record<string, unknown>) : undefined,
+        label: getName(entity),
+      });
+    } catch (err) {
+      console.error(`Failed to queue ${labels.noun}:`, err);
+      return false;
+    }
+    toast({
+      title: `${labels.title} saved on this device`,
+      description: `${getName(entity)} will sync once the server can be reached.`,
+    });
+    return true;
+  };
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    setEditing(null);
+    form.reset(defaultValues);
+  };
+
+  const onSubmit = async (values: TValues) => {
+    if (!userId || Number.isNaN(userId)) {
+      toast({
+        title: "Missing user",
+        description: `Unable to detect user ID for ${labels.noun} requests.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const target = editing;
+    const payload = toRequest(values, {
+      userId,
+      editing: target,
+      items,
+      totalElements: pagination.totalElements,
+    });
+    // Negative ids never collide with server ids
+    const tempId = -Date.now();
+
+    // Changes to a row that hasn't synced yet join its queued entry, so
+    // they replay after it rather than racing it
+    if (target && queued.has(target.id)) {
+      if (await queueChange(payload, target, tempId)) closeDialog();
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      if (target) {
+        setItems((prev) =>
+          prev.map((item) =>
+            item.id === target.id ? { ...item, ...payload } : item
+          )
+        );
+        const updated = await client.update(target.id, payload);
+        setItems((prev) =>
+          prev.map((item) => (item.id === target.id ? updated : item))
+        );
+        toast({
+          title: `${labels.title} updated`,
+          description: `${getName(updated)} was updated successfully.`,
+          variant: "success",
+        });
+      } else {
+        setItems((prev) => [
+          ...prev,
+          { ...payload, id: tempId } as unknown as TEntity,
+        ]);
+        const created = await client.create(payload);
+        setItems((prev) =>
+          prev.map((item) => (item.id === tempId ? created : item))
+        );
+        adjustTotal(1);
+        toast({
+          title: `${labels.title} added`,
+          description: `${getName(created)} was added successfully.`,
+          variant: "success",
+        });
+      }
+
+      invalidate();
+      closeDialog();
+    } catch (err) {
+      console.error(`Failed to save ${labels.noun}:`, err);
+      setItems((prev) =>
+        target
+          ? prev.map((item) => (item.id === target.id ? target : item))
+          : prev.filter((item) => item.id !== tempId)
+      );
+      if (isOfflineError(err) && (await queueChange(payload, target, tempId))) {
+        closeDialog();
+        return;
+      }
+      // Rejected input is shown under the fields; the dialog stays open
+      if (applyFieldErrors(err, form, fieldMap)) {
+        return;
+      }
+      if (err instanceof NotFoundError && target) {
+        toast({
+          title: "Save failed",
+          description: `This ${labels.noun} no longer exists. The list has been refreshed.`,
+          variant: "destructive",
+        });
+        closeDialog();
+        invalidate();
+        return;
+      }
+      toast({
+        title: "Save failed",
+        description:
+          err instanceof ConflictError
+            ? describeApiError(err, `This ${labels.noun} conflicts with an existing one.`)
+            : describeApiError(err, `Unable to save ${labels.noun}. Please try again.`),
+        variant: "destructive",
+        // Retrying won't help until the input or the conflict is fixed
+        actions:
+          err instanceof ValidationError || err instanceof ConflictError
+            ? undefined
+            : [{ label: "Retry", onClick: () => onSubmit(values) }],
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Deletes are held back until the Undo toast closes. Its timer pauses
+  // while hovered or focused, so the request waits for as long as Undo is
+  // still on offer
+  const remove = (entity: TEntity) => {
+    const entry = queued.get(entity.id);
+    // Never reached the server, so dropping the queued create is enough
+    if (entry?.method === "POST") {
+      discardMutation(entry.id).catch((err) =>
+        console.error(`Failed to discard ${labels.noun}:`, err)
+      );
+      toast({
+        title: `${labels.title} deleted`,
+        description: `${getName(entity)} has been removed.`,
+        variant: "success",
+      });
+      return;
+    }
+
+    const index = items.findIndex((item) => item.id === entity.id);
+    const restore = () => {
+      setItems((prev) => {
+        if (prev.some((item) => item.id === entity.id)) return prev;
+        const next = [...prev];
+        next.splice(Math.min(Math.max(index, 0), next.length), 0, entity);
+        return next;
+      });
+      adjustTotal(1);
+    };
+
+    setItems((prev) => prev.filter((item) => item.id !== entity.id));
+    adjustTotal(-1);
+
+    // Set by Undo or by the delete going out, so only the first one counts
+    let settled = false;
+
+    const commit = async () => {
+      if (settled) return;
+      settled = true;
+      pendingDeletes.current.delete(entity.id);
+      try {
+        await client.delete(entity.id);
+        // A queued update to the deleted row has nothing left to apply to
+        if (entry) await discardMutation(entry.id).catch(() => undefined);
+        invalidate();
+      } catch (err) {
+        console.error(`Failed to delete ${labels.noun}:`, err);
+        // Already gone, which is what the user wanted
+        if (err instanceof NotFoundError) {
+          invalidate();
+          return;
+        }
+        restore();
+        toast({
+          title: "Delete failed",
+          description: describeApiError(err, `Unable to delete the selected ${labels.noun}.`),
+          variant: "destructive",
+          actions: [{ label: "Retry", onClick: () => remove(entity) }],
+        });
+      }
+    };
+
+    const toastId = toast({
+      title: `${labels.title} deleted`,
+      description: `${getName(entity)} has been removed.`,
+      variant: "success",
+      duration: UNDO_WINDOW_MS,
+      onClose: commit,
+      actions: [
+        {
+          label: "Undo",
+          onClick: () => {
+            if (settled) return;
+            settled = true;
+            pendingDeletes.current.delete(entity.id);
+            restore();
+          },
+        },
+      ],
+    });
+    pendingDeletes.current.set(entity.id, { toastId });
+  };
+
+  // Leaving the tab commits pending deletes right away; the Undo toast
+  // would have nothing to restore into once this component is gone.
+  // Dismissing the toast runs its commit
+  useEffect(() => {
+    const pending = pendingDeletes.current;
+    return () => {
+      pending.forEach(({ toastId }) => dismiss(toastId));
+    };
+  }, [dismiss]);
+
+  const handleReorder = useCallback(
+    async (next: TEntity[]) => {
+      const previous = items;
+      setItems(() => next);
+      try {
+        await client.reorder(
+          next.map(({ id, displayOrder }) => ({ id, displayOrder }))
+        );
+        invalidate();
+      } catch (err) {
+        console.error(`Failed to reorder ${labels.plural}:`, err);
+        setItems(() => previous);
+        toast({
+          title: "Reorder failed",
+          description: "Unable to save the new order. Please try again.",
+          variant: "destructive",
+        });
+      }
+    },
+    [client, items, labels, toast, setItems, invalidate]
+  );
+
+  const reorder = useReorder(items, handleReorder);
+
+  const resolveConflict = async (entity: TEntity, keepLocal: boolean) => {
+    const entry = queued.get(entity.id);
+    if (!entry) return;
+    try {
+      if (keepLocal) {
+        // Replayed by useOfflineSync without the server check
+        await keepMutation(entry.id);
+      } else {
+        await discardMutation(entry.id);
+        toast({
+          title: "Local changes discarded",
+          description: `${entry.label} now shows the server copy.`,
+        });
+      }
+    } catch (err) {
+      console.error(`Failed to resolve ${labels.noun} conflict:`, err);
+      toast({
+        title: "Couldn't resolve conflict",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openCreate = () => {
+    setEditing(null);
+    form.reset(defaultValues);
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (entity: TEntity) => {
+    setEditing(entity);
+    form.reset(toFormValues(entity));
+    setIsDialogOpen(true);
+  };
+
+  const handleDialogOpenChange = (open: boolean) => {
+    if (open) {
+      setIsDialogOpen(true);
+    } else {
+      closeDialog();
+    }
+  };
+
+  return {
+    items,
+    query,
+    pagination,
+    isLoading,
+    isSaving,
+    error,
+    form,
+    editing,
+    isDialogOpen,
+    canEdit,
+    reorder,
+    reload,
+    getSyncState,
+    resolveConflict,
+    onSubmit,
+    remove,
+    openCreate,
+    openEdit,
+    handleDialogOpenChange,
+  };
+}
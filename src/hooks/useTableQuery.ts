@@ -0,0 +1,132 @@
+"use client";
+
+import { useCallback, useMemo } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { DEFAULT_PAGE_SIZE } from "@/lib/api/config";
+import { SortDirection, SortParam } from "@/lib/api/resource";
+
+export const PAGE_SIZE_OPTIONS = [10, 20, 50, 100];
+
+export const DEFAULT_SORT: SortParam = {
+  field: "displayOrder",
+  direction: "asc",
+};
+
+export interface TableQueryState {
+  page: number;
+  size: number;
+  sort: SortParam;
+  search: string;
+}
+
+const parseSort = (value: string | null): SortParam => {
+  if (!value) return DEFAULT_SORT;
+  const [field, direction] = value.split(",");
+  if (!field) return DEFAULT_SORT;
+  return {
+    field,
+    direction: direction === "desc" ? "desc" : "asc",
+  };
+};
+
+const parseNumber = (value: string | null, fallback: number) => {
+  const parsed = Number(value);
+  return value !== null && Number.isInteger(parsed) && parsed >= 0
+    ? parsed
+    : fallback;
+};
+
+/**
+ * Page, size, sort and search state for a table, stored in the URL so it
+ * survives reloads and can be shared. Params are namespaced with `prefix`
+ * (e.g. `projects.page`) since several tables live on the same page.
+ */
+export function useTableQuery(prefix: string) {
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  const pathname = usePathname();
+
+  const key = useCallback((name: string) => `${prefix}.${name}`, [prefix]);
+
+  const state = useMemo<TableQueryState>(() => {
+    const size = parseNumber(searchParams.get(key("size")), DEFAULT_PAGE_SIZE);
+    return {
+      page: parseNumber(searchParams.get(key("page")), 0),
+      size: size > 0 ? size : DEFAULT_PAGE_SIZE,
+      sort: parseSort(searchParams.get(key("sort"))),
+      search: searchParams.get(key("q")) ?? "",
+    };
+  }, [searchParams, key]);
+
+  const update = useCallback(
+    (patch: Partial<TableQueryState>) => {
+      const next = { ...state, ...patch };
+      const params = new URLSearchParams(searchParams.toString());
+      const set = (name: string, value: string, fallback: string) => {
+        if (value === fallback) {
+          params.delete(key(name));
+        } else {
+          params.set(key(name), value);
+        }
+      };
+
+      set("page", String(next.page), "0");
+      set("size", String(next.size), String(DEFAULT_PAGE_SIZE));
+      set(
+        "sort",
+        `${next.sort.field},${next.sort.direction ?? "asc"}`,
+        `${DEFAULT_SORT.field},${DEFAULT_SORT.direction}`
+      );
+      set("q", next.search.trim(), "");
+
+      const query = params.toString();
+      router.replace(query ? `${pathname}?${query}` : pathname, {
+        scroll: false,
+      });
+    },
+    [state, searchParams, key, router, pathname]
+  );
+
+  const setPage = useCallback((page: number) => update({ page }), [update]);
+
+  // Changing anything that affects the result set starts from page 0
+  const setSize = useCallback(
+    (size: number) => update({ size, page: 0 }),
+    [update]
+  );
+
+  const setSearch = useCallback(
+    (search: string) => {
+      if (search.trim() === state.search) return;
+      update({ search, page: 0 });
+    },
+    [update, state.search]
+  );
+
+  const toggleSort = useCallback(
+    (field: string) => {
+      let direction: SortDirection = "asc";
+      if (state.sort.field === field) {
+        direction = state.sort.direction === "asc" ? "desc" : "asc";
+      }
+      update({ sort: { field, direction }, page: 0 });
+    },
+    [update, state.sort]
+  );
+
+  const isDefaultOrder =
+    state.sort.field === DEFAULT_SORT.field &&
+    state.sort.direction === DEFAULT_SORT.direction &&
+    !state.search;
+
+  return {
+    ...state,
+    isDefaultOrder,
+    setPage,
+    setSize,
+    setSearch,
+    toggleSort,
+  };
+}
+
+export type TableQuery = ReturnType<typeof useTableQuery>;
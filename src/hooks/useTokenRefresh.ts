@@ -0,0 +1,110 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { ApiError } from "@/lib/api/errors";
+import { onConnectivityChange } from "@/lib/api/http";
+import { SessionResponse } from "@/lib/auth/session";
+
+// Refresh this long before the access token expires
+export const REFRESH_MARGIN_MS = 60_000;
+// Backoff for transient failures (network, 5xx); the last delay repeats
+const RETRY_DELAYS_MS = [5_000, 15_000, 30_000];
+
+/**
+ * Converts the server's expiry into the client's clock. The difference
+ * between `serverTime` and now is the skew (plus response latency, which
+ * only makes the refresh happen slightly earlier).
+ */
+export const toClientExpiry = (session: SessionResponse): number | null => {
+  if (session.expiresAt === null) return null;
+  const skew = session.serverTime - Date.now();
+  return session.expiresAt - skew;
+};
+
+/**
+ * Refreshes the session shortly before `expiresAt` (client clock). The timer
+ * is paused while the tab is hidden and re-evaluated when it becomes visible
+ * again, refreshing immediately if the deadline passed in the meantime.
+ * `onExpired` runs only when the server rejects the refresh token. Other
+ * failures, e.g. being offline, keep retrying, and retry at once when the
+ * backend is reachable again.
+ */
+export function useTokenRefresh(
+  expiresAt: number | null,
+  refresh: () => Promise<void>,
+  onExpired: () => void
+) {
+  const refreshRef = useRef(refresh);
+  const onExpiredRef = useRef(onExpired);
+
+  useEffect(() => {
+    refreshRef.current = refresh;
+    onExpiredRef.current = onExpired;
+  }, [refresh, onExpired]);
+
+  useEffect(() => {
+    if (expiresAt === null) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let attempt = 0;
+    let cancelled = false;
+
+    const clear = () => {
+      if (timer) clearTimeout(timer);
+      timer = undefined;
+    };
+
+    // A successful refresh changes expiresAt, which re-runs this effect
+    const run = async () => {
+      timer = undefined;
+      try {
+        await refreshRef.current();
+      } catch (error) {
+        if (cancelled) return;
+        const rejected =
+          error instanceof ApiError &&
+          (error.status === 401 || error.status === 403);
+        if (rejected) {
+          onExpiredRef.current();
+          return;
+        }
+        const delay = RETRY_DELAYS_MS[Math.min(attempt, RETRY_DELAYS_MS.length - 1)];
+        attempt++;
+        timer = setTimeout(run, delay);
+      }
+    };
+
+    const schedule = () => {
+      clear();
+      const delay = expiresAt - REFRESH_MARGIN_MS - Date.now();
+      timer = setTimeout(run, Math.max(delay, 0));
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") {
+        clear();
+      } else {
+        schedule();
+      }
+    };
+
+    // Don't wait out the backoff once the connection is back
+    const stopWatchingConnectivity = onConnectivityChange((reachable) => {
+      if (!reachable || attempt === 0 || !timer) return;
+      clear();
+      run();
+    });
+
+    if (document.visibilityState !== "hidden") {
+      schedule();
+    }
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+
+    return () => {
+      cancelled = true;
+      clear();
+      stopWatchingConnectivity();
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+    };
+  }, [expiresAt]);
+}
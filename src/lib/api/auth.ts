@@ -1,5 +1,7 @@
+import { ApiError, RateLimitError, describeApiError } from "./errors";
 import { apiFetch } from "./http";
-import { tokenStorage } from "@/lib/auth/tokenStorage";
+import { LoginResponse, SessionResponse } from "@/lib/auth/session";
+import { LinkedIdentity } from "@/types/api";
 
 export interface LoginRequest {
   email: string;
@@ -12,9 +14,42 @@ export interface SignupRequest {
   password: string;
 }
 
-export interface AuthTokens {
-  accessToken: string;
-  refreshToken: string;
+export interface PasswordResetRequest {
+  email: string;
+}
+
+export interface ResetPasswordRequest {
+  token: string;
+  password: string;
+}
+
+// Exactly one of the two is sent
+export interface MfaVerifyRequest {
+  code?: string;
+  recoveryCode?: string;
+}
+
+export interface VerifyEmailRequest {
+  token: string;
+}
+
+export interface ResendVerificationRequest {
+  email: string;
+}
+
+export interface ChangePasswordRequest {
+  currentPassword: string;
+  newPassword: string;
+}
+
+// Sensitive account changes re-confirm the current password
+export interface ChangeEmailRequest {
+  email: string;
+  password: string;
+}
+
+export interface DeleteAccountRequest {
+  password: string;
 }
 
 export const authApi = {
@@ -22,29 +57,135 @@ export const authApi = {
     return apiFetch<void>("/api/auth/signup", {
       method: "POST",
       body: payload as unknown as Record<string, unknown>,
-      requiresAuth: false,
     });
   },
+  requestPasswordReset(payload: PasswordResetRequest) {
+    return apiFetch<void>("/api/auth/forgot-password", {
+      method: "POST",
+      body: payload as unknown as Record<string, unknown>,
+    });
+  },
+  resetPassword(payload: ResetPasswordRequest) {
+    return apiFetch<void>("/api/auth/reset-password", {
+      method: "POST",
+      body: payload as unknown as Record<string, unknown>,
+    });
+  },
+  verifyEmail(payload: VerifyEmailRequest) {
+    return apiFetch<void>("/api/auth/verify-email", {
+      method: "POST",
+      body: payload as unknown as Record<string, unknown>,
+    });
+  },
+  resendVerification(payload: ResendVerificationRequest) {
+    return apiFetch<void>("/api/auth/resend-verification", {
+      method: "POST",
+      body: payload as unknown as Record<string, unknown>,
+    });
+  },
+  changePassword(payload: ChangePasswordRequest) {
+    return apiFetch<void>("/api/users/me/password", {
+      method: "PUT",
+      body: payload as unknown as Record<string, unknown>,
+    });
+  },
+  // The new address starts unverified; the backend emails a new link
+  changeEmail(payload: ChangeEmailRequest) {
+    return apiFetch<void>("/api/users/me/email", {
+      method: "PUT",
+      body: payload as unknown as Record<string, unknown>,
+    });
+  },
+  exportData() {
+    return apiFetch<Record<string, unknown>>("/api/users/me/export");
+  },
+  // Linking itself is a redirect flow, see /api/session/oauth
+  listIdentities() {
+    return apiFetch<LinkedIdentity[]>("/api/users/me/identities");
+  },
+  unlinkIdentity(provider: string) {
+    return apiFetch<void>(`/api/users/me/identities/${provider}`, {
+      method: "DELETE",
+    });
+  },
+  deleteAccount(payload: DeleteAccountRequest) {
+    return apiFetch<void>("/api/users/me", {
+      method: "DELETE",
+      body: payload as unknown as Record<string, unknown>,
+    });
+  },
+  // Session endpoints are Next route handlers that manage the httpOnly
+  // token cookies; see src/app/api/session
   login(payload: LoginRequest) {
-    return apiFetch<AuthTokens>("/api/auth/login", {
+    return apiFetch<LoginResponse>("/api/session/login", {
+      method: "POST",
+      body: payload as unknown as Record<string, unknown>,
+      bypassProxy: true,
+    });
+  },
+  verifyMfa(payload: MfaVerifyRequest) {
+    return apiFetch<SessionResponse>("/api/session/mfa", {
       method: "POST",
       body: payload as unknown as Record<string, unknown>,
-      requiresAuth: false,
+      bypassProxy: true,
+    });
+  },
+  refresh() {
+    return apiFetch<SessionResponse>("/api/session/refresh", {
+      method: "POST",
+      bypassProxy: true,
+    });
+  },
+  me() {
+    return apiFetch<SessionResponse>("/api/session/me", {
+      bypassProxy: true,
     });
   },
   async logout() {
-    const refreshToken = tokenStorage.getRefreshToken();
-    if (!refreshToken) {
-      return;
-    }
-
-    await apiFetch<void>("/api/auth/logout", {
+    await apiFetch<void>("/api/session/logout", {
       method: "POST",
-      body: { refreshToken },
-      requiresAuth: false,
+      bypassProxy: true,
     }).catch(() => {
       // ignore logout failures
     });
   },
 };
 
+const formatWait = (seconds: number) => {
+  if (seconds < 60) {
+    return `${seconds} second${seconds === 1 ? "" : "s"}`;
+  }
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+};
+
+/**
+ * User-facing message for a failed auth request. Rate limiting (429) reads
+ * the wait from `retryAfter` (seconds) in the error payload when present;
+ * connection and server failures get the generic wording, and other errors
+ * use the backend message, then `fallback`.
+ */
+export function describeAuthError(error: unknown, fallback: string): string {
+  if (!(error instanceof ApiError)) {
+    return fallback;
+  }
+  if (error instanceof RateLimitError) {
+    const retryAfter = Number(error.payload?.retryAfter);
+    return Number.isFinite(retryAfter) && retryAfter > 0
+      ? `Too many attempts. Please try again in ${formatWait(Math.ceil(retryAfter))}.`
+      : "Too many attempts. Please wait a moment and try again.";
+  }
+  if (error.kind === "network" || error.kind === "server") {
+    return describeApiError(error, fallback);
+  }
+  return error.payload?.message || fallback;
+}
+
+/**
+ * True when the pending two-factor challenge is gone (it timed out or was
+ * already used), so the user has to enter their password again.
+ */
+export const isMfaChallengeExpired = (error: unknown) =>
+  error instanceof ApiError &&
+  error.status === 401 &&
+  error.payload?.code === "MFA_CHALLENGE_EXPIRED";
@@ -1,5 +1,22 @@
+// Only used server-side by the route handlers; the browser talks to the
+// same-origin proxy below
 export const API_BASE_URL =
-  process.env.NEXT_PUBLIC_API_BASE_URL || "http://localhost:8080";
+  process.env.API_BASE_URL ||
+  process.env.NEXT_PUBLIC_API_BASE_URL ||
+  "http://localhost:8080";
+
+export const API_PROXY_PATH = "/api/proxy";
 
 export const DEFAULT_PAGE_SIZE = 20;
 
+// apiFetch defaults; uploads pass a longer timeout
+export const DEFAULT_TIMEOUT_MS = 15_000;
+export const UPLOAD_TIMEOUT_MS = 120_000;
+// Extra attempts for idempotent requests that fail transiently
+export const DEFAULT_RETRIES = 2;
+export const RETRY_BASE_DELAY_MS = 500;
+
+// Cached queries younger than this are served without a refetch; entries
+// nothing has used for QUERY_GC_TIME_MS are dropped
+export const QUERY_STALE_TIME_MS = 30_000;
+export const QUERY_GC_TIME_MS = 5 * 60_000;
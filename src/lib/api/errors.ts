@@ -0,0 +1,203 @@
+import { FieldValues, Path, UseFormReturn } from "react-hook-form";
+
+export interface ApiErrorPayload {
+  timestamp?: string;
+  status?: number;
+  error?: string;
+  message?: string;
+  path?: string;
+  [key: string]: unknown;
+}
+
+export type ApiErrorKind =
+  | "validation"
+  | "conflict"
+  | "not_found"
+  | "auth"
+  | "rate_limited"
+  | "network"
+  | "server"
+  | "unknown";
+
+// Backend field name -> message
+export type FieldErrors = Record<string, string>;
+
+export class ApiError extends Error {
+  status: number;
+  payload?: ApiErrorPayload;
+  kind: ApiErrorKind = "unknown";
+
+  constructor(message: string, status: number, payload?: ApiErrorPayload) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.payload = payload;
+  }
+}
+
+// 400/422; `fieldErrors` is empty when the backend didn't name any fields
+export class ValidationError extends ApiError {
+  kind = "validation" as const;
+  fieldErrors: FieldErrors;
+
+  constructor(message: string, status: number, payload?: ApiErrorPayload) {
+    super(message, status, payload);
+    this.name = "ValidationError";
+    this.fieldErrors = parseFieldErrors(payload);
+  }
+}
+
+// 409, e.g. a duplicate or a concurrent edit
+export class ConflictError extends ApiError {
+  kind = "conflict" as const;
+  name = "ConflictError";
+}
+
+export class NotFoundError extends ApiError {
+  kind = "not_found" as const;
+  name = "NotFoundError";
+}
+
+// 401/403: signed out, or not allowed to do this
+export class AuthError extends ApiError {
+  kind = "auth" as const;
+  name = "AuthError";
+}
+
+export class RateLimitError extends ApiError {
+  kind = "rate_limited" as const;
+  name = "RateLimitError";
+}
+
+// The request never got a response; status is 0
+export class NetworkError extends ApiError {
+  kind = "network" as const;
+  name = "NetworkError";
+
+  constructor(message = "Unable to reach the server") {
+    super(message, 0);
+  }
+}
+
+export class TimeoutError extends NetworkError {
+  name = "TimeoutError";
+
+  constructor() {
+    super("The request timed out");
+  }
+}
+
+export class ServerError extends ApiError {
+  kind = "server" as const;
+  name = "ServerError";
+}
+
+/**
+ * Field errors come in a few shapes depending on the backend handler:
+ * Spring's `errors: [{ field, defaultMessage }]`, or a map under
+ * `fieldErrors` / `errors`.
+ */
+function parseFieldErrors(payload?: ApiErrorPayload): FieldErrors {
+  const source = payload?.fieldErrors ?? payload?.errors;
+  const result: FieldErrors = {};
+
+  if (Array.isArray(source)) {
+    source.forEach((entry) => {
+      const field = entry?.field;
+      const message = entry?.defaultMessage ?? entry?.message;
+      if (typeof field === "string" && typeof message === "string") {
+        result[field] = message;
+      }
+    });
+  } else if (source && typeof source === "object") {
+    Object.entries(source as Record<string, unknown>).forEach(([field, value]) => {
+      const message = Array.isArray(value) ? value[0] : value;
+      if (typeof message === "string") {
+        result[field] = message;
+      }
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Picks the error class for a failed response's status.
+ */
+export function createApiError(
+  status: number,
+  payload?: ApiErrorPayload
+): ApiError {
+  const message =
+    payload?.message ||
+    payload?.error ||
+    `API request failed with status ${status}`;
+
+  if (status === 400 || status === 422) {
+    return new ValidationError(message, status, payload);
+  }
+  if (status === 401 || status === 403) return new AuthError(message, status, payload);
+  if (status === 404) return new NotFoundError(message, status, payload);
+  if (status === 409) return new ConflictError(message, status, payload);
+  if (status === 429) return new RateLimitError(message, status, payload);
+  if (status >= 500) return new ServerError(message, status, payload);
+  return new ApiError(message, status, payload);
+}
+
+/**
+ * Shows a ValidationError's field messages under the matching form fields.
+ * `fieldMap` renames backend fields whose name differs from the form's.
+ * Messages for fields the form doesn't have go to `root.server`. Returns
+ * false when there was nothing to show, so the caller falls back to a toast.
+ */
+export function applyFieldErrors<TValues extends FieldValues>(
+  error: unknown,
+  form: Pick<UseFormReturn<TValues>, "getValues" | "setError">,
+  fieldMap: Record<string, string> = {}
+): boolean {
+  if (!(error instanceof ValidationError)) {
+    return false;
+  }
+  const entries = Object.entries(error.fieldErrors);
+  if (entries.length === 0) {
+    return false;
+  }
+
+  const fields = Object.keys(form.getValues());
+  const unmatched: string[] = [];
+  entries.forEach(([field, message]) => {
+    const name = fieldMap[field] ?? field;
+    if (fields.includes(name)) {
+      form.setError(name as Path<TValues>, { type: "server", message });
+    } else {
+      unmatched.push(message);
+    }
+  });
+  if (unmatched.length > 0) {
+    form.setError("root.server", { type: "server", message: unmatched.join(" ") });
+  }
+  return true;
+}
+
+/**
+ * Toast-friendly description for any failed request.
+ */
+export function describeApiError(error: unknown, fallback: string): string {
+  if (!(error instanceof ApiError)) {
+    return fallback;
+  }
+  switch (error.kind) {
+    case "network":
+      return "Unable to reach the server. Check your connection and try again.";
+    case "server":
+      return "Something went wrong on our side. Please try again in a moment.";
+    case "auth":
+      return error.status === 403
+        ? "You don't have permission to do that."
+        : "Your session has ended. Please sign in again.";
+    case "rate_limited":
+      return "Too many requests. Please wait a moment and try again.";
+    default:
+      return error.payload?.message || fallback;
+  }
+}
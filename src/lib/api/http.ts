@@ -1,105 +1,188 @@
-import { API_BASE_URL } from "./config";
-import { tokenStorage, StoredTokens } from "@/lib/auth/tokenStorage";
+import {
+  API_PROXY_PATH,
+  DEFAULT_RETRIES,
+  DEFAULT_TIMEOUT_MS,
+  RETRY_BASE_DELAY_MS,
+} from "./config";
+import {
+  ApiError,
+  ApiErrorPayload,
+  NetworkError,
+  ServerError,
+  TimeoutError,
+  createApiError,
+} from "./errors";
 
 export interface ApiRequestOptions {
   method?: string;
   body?: BodyInit | Record<string, unknown> | null;
   headers?: Record<string, string>;
   isFormData?: boolean;
-  requiresAuth?: boolean;
+  // Call a same-origin route handler (e.g. /api/session/*) directly
+  // instead of forwarding to the backend through the proxy
+  bypassProxy?: boolean;
   signal?: AbortSignal;
+  // Per attempt; 0 waits indefinitely
+  timeoutMs?: number;
+  // Extra attempts after a network error or 5xx. Only idempotent methods
+  // are retried; defaults to DEFAULT_RETRIES for those and 0 otherwise
+  retries?: number;
 }
 
-export interface ApiErrorPayload {
-  timestamp?: string;
-  status?: number;
-  error?: string;
-  message?: string;
-  path?: string;
-  [key: string]: unknown;
-}
+const JSON_HEADERS = {
+  "Content-Type": "application/json",
+};
 
-export class ApiError extends Error {
-  status: number;
-  payload?: ApiErrorPayload;
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"];
+// Statuses meaning the backend (or the proxy in front of it) is unavailable
+const UNAVAILABLE_STATUSES = [502, 503, 504];
 
-  constructor(message: string, status: number, payload?: ApiErrorPayload) {
-    super(message);
-    this.status = status;
-    this.payload = payload;
-  }
+type UnauthorizedListener = (error: ApiError) => void;
+
+const unauthorizedListeners = new Set<UnauthorizedListener>();
+
+/**
+ * Subscribes to proxied requests failing with 401, i.e. the proxy could not
+ * refresh the session. Listeners get the error so they can tell why.
+ * Returns an unsubscribe function.
+ */
+export function onUnauthorized(listener: UnauthorizedListener) {
+  unauthorizedListeners.add(listener);
+  return () => {
+    unauthorizedListeners.delete(listener);
+  };
 }
 
-const JSON_HEADERS = {
-  "Content-Type": "application/json",
-};
+type ConnectivityListener = (reachable: boolean) => void;
 
-let refreshPromise: Promise<boolean> | null = null;
+const connectivityListeners = new Set<ConnectivityListener>();
+let serverReachable = true;
 
-async function refreshTokens(): Promise<boolean> {
-  if (refreshPromise) {
-    return refreshPromise;
-  }
+const setServerReachable = (reachable: boolean) => {
+  if (serverReachable === reachable) return;
+  serverReachable = reachable;
+  connectivityListeners.forEach((listener) => listener(reachable));
+};
 
-  const refreshToken = tokenStorage.getRefreshToken();
-  if (!refreshToken) {
-    return false;
-  }
+// Regaining a connection is the likeliest fix; the next request confirms it
+if (typeof window !== "undefined") {
+  window.addEventListener("online", () => setServerReachable(true));
+}
 
-  refreshPromise = fetch(`${API_BASE_URL}/api/auth/refresh`, {
-    method: "POST",
-    headers: JSON_HEADERS,
-    body: JSON.stringify({ refreshToken }),
-  })
-    .then(async (response) => {
-      if (!response.ok) {
-        return false;
-      }
-      const data = (await response.json()) as StoredTokens;
-      if (data.accessToken && data.refreshToken) {
-        tokenStorage.setTokens({
-          accessToken: data.accessToken,
-          refreshToken: data.refreshToken,
-        });
-        return true;
-      }
-      return false;
-    })
-    .catch(() => false)
-    .finally(() => {
-      refreshPromise = null;
-    });
-
-  return refreshPromise;
+/**
+ * Whether the last request got through to the backend. Flips to false on
+ * network errors and gateway failures, back to true on the next response.
+ */
+export const isServerReachable = () => serverReachable;
+
+export function onConnectivityChange(listener: ConnectivityListener) {
+  connectivityListeners.add(listener);
+  return () => {
+    connectivityListeners.delete(listener);
+  };
 }
 
+// Error bodies are usually JSON, but a gateway may answer with an HTML page
+const parseBody = (text: string): unknown => {
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
 async function parseResponse<T>(response: Response): Promise<T> {
   if (response.status === 204) {
     return undefined as T;
   }
 
-  const text = await response.text();
-  const data = text ? JSON.parse(text) : undefined;
+  const data = parseBody(await response.text());
 
   if (!response.ok) {
-    const message =
-      data?.message ||
-      data?.error ||
-      `API request failed with status ${response.status}`;
-    throw new ApiError(message, response.status, data);
+    const payload =
+      data && typeof data === "object" ? (data as ApiErrorPayload) : undefined;
+    // describeAuthError reads the wait from the payload; fall back to the
+    // Retry-After header (seconds) when the body doesn't carry it
+    const retryAfter = response.headers.get("Retry-After");
+    throw createApiError(
+      response.status,
+      retryAfter && payload?.retryAfter === undefined
+        ? { ...payload, retryAfter: Number(retryAfter) }
+        : payload
+    );
   }
 
   return data as T;
 }
 
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      },
+      { once: true }
+    );
+  });
+
+/**
+ * One fetch with a timeout. The caller's signal still cancels it; a timeout
+ * surfaces as TimeoutError and any other failure as NetworkError.
+ */
+async function fetchWithTimeout(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<Response> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer =
+    timeoutMs > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeoutMs)
+      : undefined;
+  const abort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) abort();
+  signal?.addEventListener("abort", abort, { once: true });
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (timedOut) throw new TimeoutError();
+    // Aborts are the caller's doing; anything else means no response
+    if (signal?.aborted) throw error;
+    throw new NetworkError();
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", abort);
+  }
+}
+
+/**
+ * Fetches from the backend through the same-origin proxy, which attaches
+ * the bearer token from the httpOnly session cookie and refreshes it when
+ * needed. A 401 here means the session is gone.
+ *
+ * Idempotent requests are retried with exponential backoff when the
+ * network or the server fails; everything else fails on the first error.
+ */
 export async function apiFetch<T>(
   path: string,
-  options: ApiRequestOptions = {},
-  shouldRetry = true
+  options: ApiRequestOptions = {}
 ): Promise<T> {
-  const url = path.startsWith("http") ? path : `${API_BASE_URL}${path}`;
+  const url =
+    path.startsWith("http") || options.bypassProxy
+      ? path
+      : `${API_PROXY_PATH}${path}`;
+  const method = (options.method || "GET").toUpperCase();
   const headers = new Headers(options.headers || {});
-  const requiresAuth = options.requiresAuth ?? true;
   let body: BodyInit | undefined;
 
   const providedBody = options.body;
@@ -117,29 +200,51 @@ export async function apiFetch<T>(
         : JSON.stringify(providedBody);
   }
 
-  if (requiresAuth) {
-    const token = tokenStorage.getAccessToken();
-    if (token) {
-      headers.set("Authorization", `Bearer ${token}`);
-    }
-  }
-
-  const response = await fetch(url, {
-    method: options.method || "GET",
-    headers,
-    body,
-    signal: options.signal,
-    cache: "no-store",
-  });
+  const retries = IDEMPOTENT_METHODS.includes(method)
+    ? (options.retries ?? DEFAULT_RETRIES)
+    : 0;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const response = await fetchWithTimeout(
+        url,
+        {
+          method,
+          headers,
+          body,
+          cache: "no-store",
+          credentials: "same-origin",
+        },
+        timeoutMs,
+        options.signal
+      );
+      setServerReachable(!UNAVAILABLE_STATUSES.includes(response.status));
+
+      if (response.status === 401 && !options.bypassProxy) {
+        try {
+          return await parseResponse<T>(response);
+        } catch (error) {
+          if (error instanceof ApiError) {
+            unauthorizedListeners.forEach((listener) => listener(error));
+          }
+          throw error;
+        }
+      }
 
-  if (response.status === 401 && requiresAuth && shouldRetry) {
-    const refreshed = await refreshTokens();
-    if (refreshed) {
-      return apiFetch<T>(path, options, false);
+      return await parseResponse<T>(response);
+    } catch (error) {
+      if (error instanceof NetworkError) {
+        setServerReachable(false);
+      }
+      const transient =
+        error instanceof NetworkError || error instanceof ServerError;
+      if (!transient || attempt >= retries || options.signal?.aborted) {
+        throw error;
+      }
+      // 500ms, 1s, 2s, ... with jitter so tabs don't retry in lockstep
+      const delay = RETRY_BASE_DELAY_MS * 2 ** attempt;
+      await wait(delay + Math.random() * delay * 0.3, options.signal);
     }
-    tokenStorage.clearTokens();
   }
-
-  return parseResponse<T>(response);
 }
-
@@ -0,0 +1,32 @@
+import { apiFetch } from "./http";
+import { MfaRecoveryCodes, MfaSetup, MfaStatus } from "@/types/api";
+
+export const mfaApi = {
+  getStatus() {
+    return apiFetch<MfaStatus>("/api/auth/mfa/status");
+  },
+  // Starts enrollment; 2FA stays off until `enable` confirms a code
+  setup() {
+    return apiFetch<MfaSetup>("/api/auth/mfa/setup", {
+      method: "POST",
+    });
+  },
+  enable(code: string) {
+    return apiFetch<MfaRecoveryCodes>("/api/auth/mfa/enable", {
+      method: "POST",
+      body: { code },
+    });
+  },
+  disable(code: string) {
+    return apiFetch<void>("/api/auth/mfa/disable", {
+      method: "POST",
+      body: { code },
+    });
+  },
+  regenerateRecoveryCodes(code: string) {
+    return apiFetch<MfaRecoveryCodes>("/api/auth/mfa/recovery-codes", {
+      method: "POST",
+      body: { code },
+    });
+  },
+};
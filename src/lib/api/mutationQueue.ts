@@ -0,0 +1,356 @@
+import {
+  ApiError,
+  AuthError,
+  ConflictError,
+  NetworkError,
+  NotFoundError,
+  TimeoutError,
+  describeApiError,
+} from "./errors";
+import { apiFetch } from "./http";
+import { invalidateQueries } from "./queryCache";
+
+// Creates and updates made while the backend is unreachable are kept in
+// IndexedDB and replayed in order once it is back. Entries are plain
+// requests rather than client calls so any tab can replay them, whichever
+// manager is mounted.
+
+export type SyncStatus = "pending" | "conflict";
+
+// "unknown": a create timed out, so it may have been saved already
+export type ConflictReason = "changed" | "deleted" | "rejected" | "unknown";
+
+export interface MutationConflict {
+  reason: ConflictReason;
+  message: string;
+}
+
+export interface QueuedMutation {
+  // Assigned by IndexedDB in insertion order, which is the replay order
+  id: number;
+  userId: number;
+  // Query cache namespace, e.g. "projects"
+  resource: string;
+  // Collection path, e.g. "/api/projects"
+  basePath: string;
+  // The server id for updates, a negative placeholder for creates
+  entityId: number;
+  method: "POST" | "PUT";
+  body: Record<string, unknown>;
+  // The server copy an update was made against, to detect edits elsewhere
+  base?: Record<string, unknown>;
+  // Shown in toasts, e.g. the project title
+  label: string;
+  status: SyncStatus;
+  conflict?: MutationConflict;
+  queuedAt: number;
+}
+
+export type NewMutation = Omit<
+  QueuedMutation,
+  "id" | "status" | "conflict" | "queuedAt"
+>;
+
+export interface ReplayResult {
+  synced: QueuedMutation[];
+  conflicts: QueuedMutation[];
+}
+
+const DB_NAME = "dashboard-offline";
+const DB_VERSION = 1;
+const STORE_NAME = "mutations";
+const CHANNEL_NAME = "mutation-queue";
+const REPLAY_LOCK = "mutation-queue-replay";
+
+const isBrowser = () => typeof window !== "undefined";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, {
+        keyPath: "id",
+        autoIncrement: true,
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return dbPromise;
+};
+
+async function runRequest<T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+type QueueListener = () => void;
+
+const EMPTY_QUEUE: QueuedMutation[] = [];
+
+const listeners = new Set<QueueListener>();
+let queue = EMPTY_QUEUE;
+let loading: Promise<void> | null = null;
+let channel: BroadcastChannel | null = null;
+
+const setQueue = (next: QueuedMutation[]) => {
+  queue = next;
+  listeners.forEach((listener) => listener());
+};
+
+const reloadQueue = async () => {
+  // getAll returns entries in key order, i.e. the order they were queued
+  setQueue(await runRequest("readonly", (store) => store.getAll()));
+};
+
+// Without BroadcastChannel other tabs catch up on their next reload
+const getChannel = () => {
+  if (!isBrowser() || typeof BroadcastChannel === "undefined") return null;
+  if (!channel) {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.addEventListener("message", () => {
+      reloadQueue().catch(() => undefined);
+    });
+  }
+  return channel;
+};
+
+const loadQueue = () => {
+  loading ??= reloadQueue().catch((error) => {
+    // e.g. IndexedDB is disabled; let a later call try again
+    loading = null;
+    throw error;
+  });
+  getChannel();
+  return loading;
+};
+
+const notifyTabs = () => getChannel()?.postMessage("changed");
+
+const putEntry = async (entry: QueuedMutation) => {
+  await runRequest("readwrite", (store) => store.put(entry));
+  setQueue(queue.map((item) => (item.id === entry.id ? entry : item)));
+  notifyTabs();
+};
+
+const deleteEntry = async (id: number) => {
+  await runRequest("readwrite", (store) => store.delete(id));
+  setQueue(queue.filter((item) => item.id !== id));
+  notifyTabs();
+};
+
+export const getQueuedMutations = () => queue;
+
+export const getServerQueuedMutations = () => EMPTY_QUEUE;
+
+export function subscribeMutationQueue(listener: QueueListener) {
+  listeners.add(listener);
+  loadQueue().catch(() => undefined);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Whether a failed request never reached the backend, so queueing it is
+ * safe. Timeouts don't count: the server may have applied the change.
+ */
+export function isOfflineError(error: unknown) {
+  if (error instanceof TimeoutError) return false;
+  return (
+    error instanceof NetworkError ||
+    // The proxy answers 502 when it can't reach the backend
+    (error instanceof ApiError && error.status === 502)
+  );
+}
+
+/**
+ * Queues a change. A further change to an entity that is already queued is
+ * merged into that entry, keeping its place in line and its base copy.
+ */
+export async function enqueueMutation(mutation: NewMutation) {
+  await loadQueue();
+  const existing = queue.find(
+    (entry) =>
+      entry.userId === mutation.userId &&
+      entry.resource === mutation.resource &&
+      entry.entityId === mutation.entityId
+  );
+
+  if (existing) {
+    await putEntry({
+      ...existing,
+      body: { ...existing.body, ...mutation.body },
+      label: mutation.label,
+    });
+    return;
+  }
+
+  const entry = {
+    ...mutation,
+    status: "pending" as const,
+    queuedAt: Date.now(),
+  };
+  const id = await runRequest("readwrite", (store) => store.add(entry));
+  setQueue([...queue, { ...entry, id: Number(id) }]);
+  notifyTabs();
+}
+
+/**
+ * Drops a queued change, e.g. "Discard mine" on a conflict or deleting a
+ * row that was never synced.
+ */
+export async function discardMutation(id: number) {
+  const entry = queue.find((item) => item.id === id);
+  await deleteEntry(id);
+  if (entry) invalidateQueries([entry.resource]);
+}
+
+/**
+ * Resolves a conflict in favour of the local change: it is sent again
+ * without the server check, and recreated if the server copy was deleted.
+ */
+export async function keepMutation(id: number) {
+  const entry = queue.find((item) => item.id === id);
+  if (!entry) return;
+  await putEntry({
+    ...entry,
+    method: entry.conflict?.reason === "deleted" ? "POST" : entry.method,
+    base: undefined,
+    status: "pending",
+    conflict: undefined,
+  });
+}
+
+const hasChanged = (
+  base: Record<string, unknown>,
+  current: Record<string, unknown>
+) =>
+  Object.keys(base).some(
+    (key) => JSON.stringify(base[key]) !== JSON.stringify(current[key])
+  );
+
+// Sends one entry; returns the conflict instead when it can't be applied
+async function replayEntry(
+  entry: QueuedMutation
+): Promise<MutationConflict | null> {
+  const path =
+    entry.method === "PUT" ? `${entry.basePath}/${entry.entityId}` : entry.basePath;
+
+  try {
+    if (entry.method === "PUT" && entry.base) {
+      const current = await apiFetch<Record<string, unknown>>(path);
+      if (hasChanged(entry.base, current)) {
+        return {
+          reason: "changed",
+          message: "It was changed elsewhere while you were offline.",
+        };
+      }
+    }
+    await apiFetch(path, { method: entry.method, body: entry.body });
+    return null;
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return {
+        reason: "deleted",
+        message: "It was deleted elsewhere while you were offline.",
+      };
+    }
+    if (error instanceof ConflictError) {
+      return {
+        reason: "changed",
+        message: describeApiError(error, "It conflicts with the server copy."),
+      };
+    }
+    // Sending a create again could duplicate it; let the user decide
+    if (error instanceof TimeoutError && entry.method === "POST") {
+      return {
+        reason: "unknown",
+        message:
+          "The server didn't answer in time, so it may already have been saved. Check the list before keeping it.",
+      };
+    }
+    // Still offline, or signed out: stop and keep the rest in order. Other
+    // timeouts are safe to retry, since the update check and PUT are idempotent
+    if (
+      error instanceof NetworkError ||
+      isOfflineError(error) ||
+      (error instanceof AuthError && error.status === 401) ||
+      !(error instanceof ApiError)
+    ) {
+      throw error;
+    }
+    return {
+      reason: "rejected",
+      message: describeApiError(error, "The server rejected this change."),
+    };
+  }
+}
+
+/**
+ * Drops every queued change on this device. Called on sign-out so nothing
+ * is replayed under the next account.
+ */
+export async function clearMutationQueue() {
+  await runRequest("readwrite", (store) => store.clear());
+  setQueue(EMPTY_QUEUE);
+  notifyTabs();
+}
+
+const withReplayLock = async <T>(task: () => Promise<T>): Promise<T> => {
+  if (!isBrowser() || !navigator.locks) {
+    return task();
+  }
+  return navigator.locks.request(REPLAY_LOCK, task);
+};
+
+let replaying: Promise<ReplayResult> | null = null;
+
+/**
+ * Replays the user's pending entries oldest first. Conflicts are set aside
+ * for the user to resolve and the rest carry on; a connection failure stops
+ * the run so the remaining entries keep their order. Only one tab replays
+ * at a time.
+ */
+export function replayQueue(userId: number): Promise<ReplayResult> {
+  replaying ??= withReplayLock(async () => {
+    const result: ReplayResult = { synced: [], conflicts: [] };
+    // Another tab may have replayed while this one waited for the lock
+    await reloadQueue();
+
+    const pending = queue.filter(
+      (entry) => entry.userId === userId && entry.status === "pending"
+    );
+    for (const entry of pending) {
+      let conflict: MutationConflict | null;
+      try {
+        conflict = await replayEntry(entry);
+      } catch {
+        break;
+      }
+
+      if (conflict) {
+        const updated = { ...entry, status: "conflict" as const, conflict };
+        await putEntry(updated);
+        result.conflicts.push(updated);
+      } else {
+        await deleteEntry(entry.id);
+        result.synced.push(entry);
+      }
+      invalidateQueries([entry.resource]);
+    }
+    return result;
+  }).finally(() => {
+    replaying = null;
+  });
+  return replaying;
+}
@@ -0,0 +1,28 @@
+import { UPLOAD_TIMEOUT_MS } from "./config";
+import { apiFetch } from "./http";
+import { Profile, ProfileRequest } from "@/types/api";
+
+export const profilesApi = {
+  getByUserId(userId: number) {
+    return apiFetch<Profile>(`/api/profiles/user/${userId}`);
+  },
+  update(userId: number, payload: ProfileRequest) {
+    return apiFetch<Profile>(`/api/profiles/user/${userId}`, {
+      method: "PUT",
+      body: payload as unknown as Record<string, unknown>,
+    });
+  },
+  uploadPicture(userId: number, formData: FormData) {
+    return apiFetch<Profile>(`/api/profiles/user/${userId}/picture`, {
+      method: "POST",
+      body: formData,
+      isFormData: true,
+      timeoutMs: UPLOAD_TIMEOUT_MS,
+    });
+  },
+  removePicture(userId: number) {
+    return apiFetch<Profile>(`/api/profiles/user/${userId}/picture`, {
+      method: "DELETE",
+    });
+  },
+};
@@ -0,0 +1,209 @@
+import { QUERY_GC_TIME_MS, QUERY_STALE_TIME_MS } from "./config";
+import { onConnectivityChange } from "./http";
+
+// e.g. ["projects", userId, { page, size }]; must be JSON-serializable
+export type QueryKey = readonly unknown[];
+
+export interface QueryState<T> {
+  data?: T;
+  error?: unknown;
+  // 0 until the first successful fetch, and again once invalidated
+  updatedAt: number;
+  isFetching: boolean;
+}
+
+export interface FetchQueryOptions {
+  staleTime?: number;
+  // Start a new request even if one is in flight or the data is fresh
+  force?: boolean;
+}
+
+interface QueryEntry {
+  key: QueryKey;
+  state: QueryState<unknown>;
+  listeners: Set<() => void>;
+  // The last fetcher used, so invalidation and focus can refetch
+  fetcher?: () => Promise<unknown>;
+  staleTime: number;
+  promise?: Promise<unknown>;
+  gcTimer?: ReturnType<typeof setTimeout>;
+}
+
+const EMPTY_STATE: QueryState<never> = { updatedAt: 0, isFetching: false };
+
+const entries = new Map<string, QueryEntry>();
+
+export const hashKey = (key: QueryKey) => JSON.stringify(key);
+
+// Drops an unwatched entry after QUERY_GC_TIME_MS, unless something
+// subscribes in the meantime
+const scheduleGc = (entry: QueryEntry) => {
+  clearTimeout(entry.gcTimer);
+  entry.gcTimer = setTimeout(() => {
+    if (entry.listeners.size > 0) return;
+    // Let an in-flight fetch settle first
+    if (entry.promise) {
+      scheduleGc(entry);
+      return;
+    }
+    entries.delete(hashKey(entry.key));
+  }, QUERY_GC_TIME_MS);
+};
+
+// Entries nobody watches, e.g. ones written by setQueryData or prefetched,
+// are collected like unsubscribed ones
+const getEntry = (key: QueryKey) => {
+  const hash = hashKey(key);
+  let entry = entries.get(hash);
+  if (!entry) {
+    entry = {
+      key,
+      state: EMPTY_STATE,
+      listeners: new Set(),
+      staleTime: QUERY_STALE_TIME_MS,
+    };
+    entries.set(hash, entry);
+  }
+  if (entry.listeners.size === 0) scheduleGc(entry);
+  return entry;
+};
+
+// Snapshots are replaced rather than mutated so useSyncExternalStore
+// notices the change
+const update = (entry: QueryEntry, patch: Partial<QueryState<unknown>>) => {
+  entry.state = { ...entry.state, ...patch };
+  entry.listeners.forEach((listener) => listener());
+};
+
+const isStale = (entry: QueryEntry) =>
+  Date.now() - entry.state.updatedAt > entry.staleTime;
+
+export function getQueryState<T>(key: QueryKey): QueryState<T> {
+  return (entries.get(hashKey(key))?.state as QueryState<T>) ?? EMPTY_STATE;
+}
+
+/**
+ * Watches a key. Entries stay cached after their last subscriber leaves so
+ * remounting is instant, and are dropped after QUERY_GC_TIME_MS.
+ */
+export function subscribeQuery(key: QueryKey, listener: () => void) {
+  const entry = getEntry(key);
+  clearTimeout(entry.gcTimer);
+  entry.listeners.add(listener);
+  return () => {
+    entry.listeners.delete(listener);
+    if (entry.listeners.size === 0) scheduleGc(entry);
+  };
+}
+
+/**
+ * Returns cached data while it is fresh, otherwise fetches it. Concurrent
+ * calls for the same key share one request. A forced fetch supersedes the
+ * one in flight, whose result is then discarded.
+ */
+export function fetchQuery<T>(
+  key: QueryKey,
+  fetcher: () => Promise<T>,
+  { staleTime = QUERY_STALE_TIME_MS, force = false }: FetchQueryOptions = {}
+): Promise<T> {
+  const entry = getEntry(key);
+  entry.fetcher = fetcher;
+  entry.staleTime = staleTime;
+
+  if (!force) {
+    if (entry.promise) return entry.promise as Promise<T>;
+    if (entry.state.updatedAt > 0 && !isStale(entry)) {
+      return Promise.resolve(entry.state.data as T);
+    }
+  }
+
+  const promise = fetcher().then(
+    (data) => {
+      if (entry.promise === promise) {
+        entry.promise = undefined;
+        update(entry, {
+          data,
+          error: undefined,
+          updatedAt: Date.now(),
+          isFetching: false,
+        });
+      }
+      return data;
+    },
+    (error) => {
+      if (entry.promise === promise) {
+        entry.promise = undefined;
+        update(entry, { error, isFetching: false });
+      }
+      throw error;
+    }
+  );
+  entry.promise = promise;
+  update(entry, { isFetching: true });
+  return promise;
+}
+
+/**
+ * Writes to the cache without fetching, e.g. an optimistic update or a
+ * mutation's response. Returning undefined from the updater leaves the
+ * entry untouched.
+ */
+export function setQueryData<T>(
+  key: QueryKey,
+  updater: (current: T | undefined) => T | undefined
+) {
+  const entry = getEntry(key);
+  const next = updater(entry.state.data as T | undefined);
+  if (next === undefined) return;
+  update(entry, { data: next });
+}
+
+// Revalidation failures are already recorded in the entry's state
+const refetch = (entry: QueryEntry) => {
+  if (!entry.fetcher) return;
+  fetchQuery(entry.key, entry.fetcher, {
+    staleTime: entry.staleTime,
+    force: true,
+  }).catch(() => undefined);
+};
+
+const startsWith = (key: QueryKey, prefix: QueryKey) =>
+  prefix.length <= key.length &&
+  hashKey(key.slice(0, prefix.length)) === hashKey(prefix);
+
+/**
+ * Marks every query under `prefix` stale after a mutation. Ones on screen
+ * refetch right away; the rest refetch when next used.
+ */
+export function invalidateQueries(prefix: QueryKey) {
+  entries.forEach((entry) => {
+    if (!startsWith(entry.key, prefix)) return;
+    update(entry, { updatedAt: 0 });
+    if (entry.listeners.size > 0) refetch(entry);
+  });
+}
+
+// Signing out must not leave the previous user's data behind
+export function clearQueryCache() {
+  entries.forEach((entry) => clearTimeout(entry.gcTimer));
+  entries.clear();
+}
+
+const revalidateActive = () => {
+  entries.forEach((entry) => {
+    if (entry.listeners.size > 0 && !entry.promise && isStale(entry)) {
+      refetch(entry);
+    }
+  });
+};
+
+// Data may have changed elsewhere while the tab was hidden or offline
+if (typeof window !== "undefined") {
+  window.addEventListener("focus", revalidateActive);
+  document.addEventListener("visibilitychange", () => {
+    if (document.visibilityState === "visible") revalidateActive();
+  });
+  onConnectivityChange((reachable) => {
+    if (reachable) revalidateActive();
+  });
+}
@@ -0,0 +1,103 @@
+import { apiFetch } from "./http";
+import { DisplayOrderUpdate, PaginatedResponse } from "@/types/api";
+import { DEFAULT_PAGE_SIZE } from "./config";
+
+export type SortDirection = "asc" | "desc";
+
+export interface SortParam {
+  field: string;
+  direction?: SortDirection;
+}
+
+export type QueryValue = string | number | boolean | null | undefined;
+
+export interface ResourceQuery {
+  userId?: number;
+  page?: number;
+  size?: number;
+  sort?: SortParam | SortParam[];
+  search?: string;
+  filters?: Record<string, QueryValue>;
+}
+
+// Serializes a query the way Spring Data expects it: repeated
+// `sort=field,direction` pairs and filters as plain params.
+export const buildQuery = ({
+  userId,
+  page = 0,
+  size = DEFAULT_PAGE_SIZE,
+  sort,
+  search,
+  filters = {},
+}: ResourceQuery = {}) => {
+  const params = new URLSearchParams();
+  const set = (key: string, value: QueryValue) => {
+    if (value === undefined || value === null || value === "") return;
+    params.set(key, String(value));
+  };
+
+  set("userId", userId);
+  set("page", page);
+  set("size", size);
+  set("search", search?.trim());
+  Object.entries(filters).forEach(([key, value]) => set(key, value));
+
+  const sorts = sort ? (Array.isArray(sort) ? sort : [sort]) : [];
+  sorts.forEach(({ field, direction = "asc" }) => {
+    params.append("sort", `${field},${direction}`);
+  });
+
+  return params.toString();
+};
+
+// Listing, fetching and deleting, for resources whose writes don't fit the
+// JSON create/update shape, e.g. file uploads
+export function createCollectionClient<TEntity>(basePath: string) {
+  return {
+    // Lets queued offline changes be replayed as plain requests
+    basePath,
+    list(query: ResourceQuery = {}) {
+      return apiFetch<PaginatedResponse<TEntity>>(
+        `${basePath}?${buildQuery(query)}`
+      );
+    },
+    getById(id: number) {
+      return apiFetch<TEntity>(`${basePath}/${id}`);
+    },
+    delete(id: number) {
+      return apiFetch<void>(`${basePath}/${id}`, {
+        method: "DELETE",
+      });
+    },
+  };
+}
+
+export function createResourceClient<TEntity, TRequest>(basePath: string) {
+  return {
+    ...createCollectionClient<TEntity>(basePath),
+    create(payload: TRequest) {
+      return apiFetch<TEntity>(basePath, {
+        method: "POST",
+        body: payload as unknown as Record<string, unknown>,
+      });
+    },
+    update(id: number, payload: Partial<TRequest>) {
+      return apiFetch<TEntity>(`${basePath}/${id}`, {
+        method: "PUT",
+        body: payload as unknown as Record<string, unknown>,
+      });
+    },
+  };
+}
+
+// Batch `displayOrder` update for resources shown in a sortable table
+export function createReorderClient(basePath: string) {
+  return {
+    reorder(items: DisplayOrderUpdate[]) {
+      return apiFetch<void>(`${basePath}/reorder`, {
+        method: "PUT",
+        body: { items },
+      });
+    },
+  };
+}
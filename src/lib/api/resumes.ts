@@ -1,12 +1,9 @@
+import { UPLOAD_TIMEOUT_MS } from "./config";
 import { apiFetch } from "./http";
-import { PaginatedResponse, Resume } from "@/types/api";
-import { DEFAULT_PAGE_SIZE } from "./config";
+import { Resume } from "@/types/api";
+import { createCollectionClient } from "./resource";
 
-export interface ResumeQuery {
-  page?: number;
-  size?: number;
-  userId?: number;
-}
+const resumeResource = createCollectionClient<Resume>("/api/resumes");
 
 export const resumesApi = {
   upload(formData: FormData) {
@@ -14,20 +11,10 @@ export const resumesApi = {
       method: "POST",
       body: formData,
       isFormData: true,
+      timeoutMs: UPLOAD_TIMEOUT_MS,
     });
   },
-  list(params: ResumeQuery = {}) {
-    const searchParams = new URLSearchParams();
-    searchParams.set("page", String(params.page ?? 0));
-    searchParams.set("size", String(params.size ?? DEFAULT_PAGE_SIZE));
-    if (typeof params.userId === "number") {
-      searchParams.set("userId", String(params.userId));
-    }
-
-    return apiFetch<PaginatedResponse<Resume>>(
-      `/api/resumes?${searchParams.toString()}`
-    );
-  },
+  list: resumeResource.list,
   updateStatus(id: number, isActive: boolean) {
     return apiFetch<Resume>(
       `/api/resumes/${id}/status?active=${String(isActive)}`,
@@ -36,10 +23,5 @@ export const resumesApi = {
       }
     );
   },
-  delete(id: number) {
-    return apiFetch<void>(`/api/resumes/${id}`, {
-      method: "DELETE",
-    });
-  },
+  delete: resumeResource.delete,
 };
-
@@ -0,0 +1,29 @@
+import { ApiError } from "./errors";
+import { apiFetch } from "./http";
+import { ActiveSession } from "@/types/api";
+
+export const sessionsApi = {
+  list() {
+    return apiFetch<ActiveSession[]>("/api/auth/sessions");
+  },
+  revoke(id: string) {
+    return apiFetch<void>(`/api/auth/sessions/${id}`, {
+      method: "DELETE",
+    });
+  },
+  // Revokes every session, including the current one
+  revokeAll() {
+    return apiFetch<void>("/api/auth/sessions", {
+      method: "DELETE",
+    });
+  },
+};
+
+/**
+ * True when the backend rejected the request because this session was
+ * revoked from another device rather than because it expired.
+ */
+export const isSessionRevoked = (error: unknown) =>
+  error instanceof ApiError &&
+  error.status === 401 &&
+  error.payload?.code === "SESSION_REVOKED";
@@ -0,0 +1,20 @@
+import { apiFetch } from "./http";
+import { buildQuery, ResourceQuery } from "./resource";
+import { Role } from "@/lib/auth/permissions";
+import { ManagedUser, PaginatedResponse } from "@/types/api";
+
+// Admin-only endpoints; the backend answers 403 for everyone else
+export const usersApi = {
+  list(query: ResourceQuery = {}) {
+    return apiFetch<PaginatedResponse<ManagedUser>>(
+      `/api/users?${buildQuery(query)}`
+    );
+  },
+  // Replaces the user's roles; they apply from the user's next token refresh
+  updateRole(id: number, role: Role) {
+    return apiFetch<ManagedUser>(`/api/users/${id}/role`, {
+      method: "PUT",
+      body: { role },
+    });
+  },
+};
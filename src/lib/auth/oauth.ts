@@ -0,0 +1,35 @@
+// Social sign-in. The browser is sent to /api/session/oauth/<provider>,
+// which redirects to the provider; its callback exchanges the code via the
+// backend and sets the same session cookies as a password login.
+
+export type OAuthProvider = "github" | "google";
+
+export const OAUTH_PROVIDERS: OAuthProvider[] = ["github", "google"];
+
+export const OAUTH_PROVIDER_LABELS: Record<OAuthProvider, string> = {
+  github: "GitHub",
+  google: "Google",
+};
+
+export const isOAuthProvider = (value: string): value is OAuthProvider =>
+  (OAUTH_PROVIDERS as string[]).includes(value);
+
+/**
+ * Where to navigate to start the flow. With `link`, the provider is
+ * attached to the signed-in account instead of signing in.
+ */
+export const oauthStartPath = (
+  provider: OAuthProvider,
+  { next, link = false }: { next?: string | null; link?: boolean } = {}
+) => {
+  const params = new URLSearchParams();
+  if (link) params.set("mode", "link");
+  if (next) params.set("next", next);
+  const query = params.toString();
+  return `/api/session/oauth/${provider}${query ? `?${query}` : ""}`;
+};
+
+// `?oauth=` values the dashboard reports after linking
+export const OAUTH_LINKED = "linked";
+export const OAUTH_LINK_FAILED = "link_failed";
+export const OAUTH_LINK_IN_USE = "link_in_use";
@@ -0,0 +1,30 @@
+export type PasswordStrength = 0 | 1 | 2 | 3 | 4;
+
+export const PASSWORD_STRENGTH_LABELS: Record<PasswordStrength, string> = {
+  0: "Too weak",
+  1: "Weak",
+  2: "Fair",
+  3: "Good",
+  4: "Strong",
+};
+
+/**
+ * Rough client-side estimate for the strength meter: length plus character
+ * variety, penalising repeated characters. The backend enforces its own rules.
+ */
+export const getPasswordStrength = (password: string): PasswordStrength => {
+  if (password.length < 6) return 0;
+
+  const classes = [/[a-z]/, /[A-Z]/, /\d/, /[^A-Za-z0-9]/].filter((pattern) =>
+    pattern.test(password)
+  ).length;
+
+  let score = 0;
+  if (password.length >= 8) score++;
+  if (password.length >= 12) score++;
+  if (classes >= 2) score++;
+  if (classes >= 3) score++;
+  if (/(.)\1{2,}/.test(password)) score--;
+
+  return Math.max(1, Math.min(4, score)) as PasswordStrength;
+};
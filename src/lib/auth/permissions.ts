@@ -0,0 +1,56 @@
+export type Role = "ADMIN" | "EDITOR" | "VIEWER";
+
+export type Permission =
+  | "content:read"
+  | "content:write"
+  // Making content prominent on the public portfolio, e.g. featured projects
+  | "content:publish"
+  | "users:manage";
+
+// Tokens without a role claim belong to regular portfolio owners, who have
+// always been able to edit their own content
+const DEFAULT_ROLE: Role = "EDITOR";
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  ADMIN: ["content:read", "content:write", "content:publish", "users:manage"],
+  EDITOR: ["content:read", "content:write", "content:publish"],
+  VIEWER: ["content:read"],
+};
+
+export const ROLES = Object.keys(ROLE_PERMISSIONS) as Role[];
+
+// Checked by the proxy before the page loads; the longest matching prefix
+// wins. Pages should still guard themselves with <RequireRole>.
+export const ROUTE_PERMISSIONS: { prefix: string; permission: Permission }[] = [
+  { prefix: "/dashboard/users", permission: "users:manage" },
+  { prefix: "/dashboard", permission: "content:read" },
+];
+
+const isRole = (value: string): value is Role => value in ROLE_PERMISSIONS;
+
+/**
+ * Maps JWT `roles`/`authorities` (e.g. "ROLE_ADMIN", "admin") onto known
+ * roles, ignoring anything unrecognised.
+ */
+export const normalizeRoles = (roles: string[] | undefined): Role[] => {
+  const known = (roles ?? [])
+    .map((role) => role.toUpperCase().replace(/^ROLE_/, ""))
+    .filter(isRole);
+  return known.length > 0 ? known : [DEFAULT_ROLE];
+};
+
+export const hasPermission = (
+  roles: string[] | undefined,
+  permission: Permission
+) =>
+  normalizeRoles(roles).some((role) =>
+    ROLE_PERMISSIONS[role].includes(permission)
+  );
+
+export const getRoutePermission = (pathname: string) =>
+  ROUTE_PERMISSIONS.filter(
+    ({ prefix }) => pathname === prefix || pathname.startsWith(`${prefix}/`)
+  ).sort((a, b) => b.prefix.length - a.prefix.length)[0]?.permission;
+
+// Permissions withheld until the account's email address is verified
+export const VERIFIED_ONLY_PERMISSIONS: Permission[] = ["content:publish"];
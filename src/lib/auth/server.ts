@@ -0,0 +1,361 @@
+import { NextRequest, NextResponse } from "next/server";
+import { API_BASE_URL } from "@/lib/api/config";
+import { OAuthProvider } from "./oauth";
+import {
+  ACCESS_TOKEN_COOKIE,
+  MFA_TOKEN_COOKIE,
+  OAUTH_STATE_COOKIE,
+  REFRESH_TOKEN_COOKIE,
+  SessionResponse,
+  SessionUser,
+} from "./session";
+
+// Server-only helpers for the /api/session and /api/proxy route handlers.
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+// Returned by the backend's login instead of tokens when 2FA is enabled
+export interface MfaChallenge {
+  mfaRequired: true;
+  mfaToken: string;
+}
+
+interface JwtPayload {
+  sub?: string | number;
+  email?: string;
+  name?: string;
+  roles?: string[];
+  authorities?: string[];
+  userId?: string | number;
+  emailVerified?: boolean;
+  email_verified?: boolean;
+  exp?: number;
+  [key: string]: unknown;
+}
+
+const REFRESH_TOKEN_MAX_AGE = 60 * 60 * 24 * 7; // 7 days
+const MFA_TOKEN_MAX_AGE = 60 * 5; // 5 minutes to enter the code
+const OAUTH_STATE_MAX_AGE = 60 * 10; // 10 minutes at the provider
+
+// Only the client ids live here; the backend holds the secrets and does the
+// code exchange
+const OAUTH_CONFIG: Record<
+  OAuthProvider,
+  { authorizeUrl: string; clientId?: string; scope: string }
+> = {
+  github: {
+    authorizeUrl: "https://github.com/login/oauth/authorize",
+    clientId: process.env.GITHUB_CLIENT_ID,
+    scope: "read:user user:email",
+  },
+  google: {
+    authorizeUrl: "https://accounts.google.com/o/oauth2/v2/auth",
+    clientId: process.env.GOOGLE_CLIENT_ID,
+    scope: "openid email profile",
+  },
+};
+
+// Kept in the state cookie between the redirect and the callback
+export interface OAuthState {
+  state: string;
+  provider: OAuthProvider;
+  // "link" attaches the provider to the signed-in account
+  mode: "login" | "link";
+  next: string;
+}
+
+const cookieOptions = {
+  httpOnly: true,
+  sameSite: "lax" as const,
+  secure: process.env.NODE_ENV === "production",
+  path: "/",
+};
+
+export const backendUrl = (path: string) => `${API_BASE_URL}${path}`;
+
+/**
+ * Headers describing the browser behind a route handler request. Requests to
+ * the backend come from this server, so without them every session would
+ * show the server's user agent and IP in the sessions list.
+ */
+export const clientHeaders = (request: NextRequest): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  const userAgent = request.headers.get("user-agent");
+  const forwardedFor = request.headers.get("x-forwarded-for");
+  if (userAgent) headers["User-Agent"] = userAgent;
+  if (forwardedFor) headers["X-Forwarded-For"] = forwardedFor;
+  return headers;
+};
+
+export const decodeJwt = (token: string): JwtPayload | null => {
+  try {
+    const payload = token.split(".")[1];
+    if (!payload) return null;
+    const decoded = Buffer.from(
+      payload.replace(/-/g, "+").replace(/_/g, "/"),
+      "base64"
+    ).toString("utf8");
+    return JSON.parse(decoded);
+  } catch (error) {
+    console.error("Failed to decode JWT:", error);
+    return null;
+  }
+};
+
+export const deriveUser = (
+  token: string,
+  fallback: Partial<SessionUser> = {}
+): SessionUser => {
+  const payload = decodeJwt(token) || {};
+  const id =
+    payload.userId?.toString() ||
+    payload.sub?.toString() ||
+    fallback.id ||
+    fallback.email ||
+    "";
+  const email = payload.email || fallback.email || "";
+  const name = payload.name || fallback.name || email.split("@")[0] || "";
+  const roles: string[] | undefined = payload.roles || payload.authorities;
+  const emailVerified = payload.emailVerified ?? payload.email_verified;
+
+  return {
+    id,
+    email,
+    name,
+    roles,
+    emailVerified,
+  };
+};
+
+export const toSessionResponse = (
+  accessToken: string,
+  fallback?: Partial<SessionUser>
+): SessionResponse => {
+  const exp = decodeJwt(accessToken)?.exp;
+  return {
+    user: deriveUser(accessToken, fallback),
+    expiresAt: typeof exp === "number" ? exp * 1000 : null,
+    serverTime: Date.now(),
+  };
+};
+
+export const isTokenExpired = (token: string) => {
+  const exp = decodeJwt(token)?.exp;
+  return typeof exp === "number" && exp * 1000 <= Date.now();
+};
+
+export const readTokens = (request: NextRequest) => ({
+  accessToken: request.cookies.get(ACCESS_TOKEN_COOKIE)?.value,
+  refreshToken: request.cookies.get(REFRESH_TOKEN_COOKIE)?.value,
+});
+
+export const setSessionCookies = (
+  response: NextResponse,
+  tokens: AuthTokens
+) => {
+  const exp = decodeJwt(tokens.accessToken)?.exp;
+  response.cookies.set(ACCESS_TOKEN_COOKIE, tokens.accessToken, {
+    ...cookieOptions,
+    maxAge:
+      typeof exp === "number"
+        ? Math.max(Math.floor(exp - Date.now() / 1000), 0)
+        : REFRESH_TOKEN_MAX_AGE,
+  });
+  response.cookies.set(REFRESH_TOKEN_COOKIE, tokens.refreshToken, {
+    ...cookieOptions,
+    maxAge: REFRESH_TOKEN_MAX_AGE,
+  });
+};
+
+export const setMfaCookie = (response: NextResponse, mfaToken: string) => {
+  response.cookies.set(MFA_TOKEN_COOKIE, mfaToken, {
+    ...cookieOptions,
+    maxAge: MFA_TOKEN_MAX_AGE,
+  });
+};
+
+export const clearMfaCookie = (response: NextResponse) => {
+  response.cookies.set(MFA_TOKEN_COOKIE, "", { ...cookieOptions, maxAge: 0 });
+};
+
+export const setOAuthStateCookie = (
+  response: NextResponse,
+  value: OAuthState
+) => {
+  response.cookies.set(OAUTH_STATE_COOKIE, JSON.stringify(value), {
+    ...cookieOptions,
+    maxAge: OAUTH_STATE_MAX_AGE,
+  });
+};
+
+export const readOAuthState = (request: NextRequest): OAuthState | null => {
+  const value = request.cookies.get(OAUTH_STATE_COOKIE)?.value;
+  if (!value) return null;
+  try {
+    return JSON.parse(value) as OAuthState;
+  } catch {
+    return null;
+  }
+};
+
+export const clearOAuthStateCookie = (response: NextResponse) => {
+  response.cookies.set(OAUTH_STATE_COOKIE, "", { ...cookieOptions, maxAge: 0 });
+};
+
+// Must match between the authorize redirect and the backend's code exchange
+export const oauthRedirectUri = (request: NextRequest, provider: OAuthProvider) =>
+  `${request.nextUrl.origin}/api/session/oauth/${provider}/callback`;
+
+/**
+ * The provider's consent page URL, or null when the provider has no client
+ * id configured.
+ */
+export const buildAuthorizeUrl = (
+  provider: OAuthProvider,
+  state: string,
+  redirectUri: string
+): string | null => {
+  const config = OAUTH_CONFIG[provider];
+  if (!config.clientId) return null;
+  const params = new URLSearchParams({
+    client_id: config.clientId,
+    redirect_uri: redirectUri,
+    scope: config.scope,
+    state,
+    response_type: "code",
+  });
+  return `${config.authorizeUrl}?${params.toString()}`;
+};
+
+/**
+ * Builds the response for a completed sign-in: the session body plus the
+ * token cookies.
+ */
+export const startSession = (
+  tokens: AuthTokens,
+  fallback?: Partial<SessionUser>
+) => {
+  const session = toSessionResponse(tokens.accessToken, fallback);
+
+  if (!session.user.id) {
+    return NextResponse.json(
+      { message: "User information missing in token" },
+      { status: 502 }
+    );
+  }
+
+  const response = NextResponse.json<SessionResponse>(session);
+  setSessionCookies(response, tokens);
+  clearMfaCookie(response);
+  return response;
+};
+
+export const clearSessionCookies = (response: NextResponse) => {
+  response.cookies.set(ACCESS_TOKEN_COOKIE, "", { ...cookieOptions, maxAge: 0 });
+  response.cookies.set(REFRESH_TOKEN_COOKIE, "", { ...cookieOptions, maxAge: 0 });
+};
+
+// How long a rotated pair is handed to late requests still carrying the old
+// refresh token, i.e. ones sent before the browser stored the new cookies
+const ROTATED_TOKEN_GRACE_MS = 10_000;
+
+const refreshes = new Map<string, Promise<AuthTokens | null>>();
+
+/**
+ * Exchanges a refresh token for a new pair. Returns null when the backend
+ * rejects it or is unreachable.
+ *
+ * Tokens rotate on use, so concurrent requests with the same refresh token
+ * (a dashboard loading several tabs' data, or two tabs) share one exchange
+ * instead of the losers being rejected and signed out. This is per server
+ * instance; the client's refresh lock covers the rest.
+ */
+export function refreshSession(
+  refreshToken: string,
+  request?: NextRequest
+): Promise<AuthTokens | null> {
+  const pending = refreshes.get(refreshToken);
+  if (pending) return pending;
+
+  const exchange = exchangeRefreshToken(refreshToken, request).then((tokens) => {
+    if (tokens) {
+      setTimeout(() => refreshes.delete(refreshToken), ROTATED_TOKEN_GRACE_MS);
+    } else {
+      refreshes.delete(refreshToken);
+    }
+    return tokens;
+  });
+  refreshes.set(refreshToken, exchange);
+  return exchange;
+}
+
+async function exchangeRefreshToken(
+  refreshToken: string,
+  request?: NextRequest
+): Promise<AuthTokens | null> {
+  try {
+    const response = await fetch(backendUrl("/api/auth/refresh"), {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(request ? clientHeaders(request) : {}),
+      },
+      body: JSON.stringify({ refreshToken }),
+      cache: "no-store",
+    });
+    if (!response.ok) {
+      return null;
+    }
+    const data = (await response.json()) as Partial<AuthTokens>;
+    if (data.accessToken && data.refreshToken) {
+      return { accessToken: data.accessToken, refreshToken: data.refreshToken };
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+// The backend is down or unreachable; apiFetch treats 502 as transient
+export const badGateway = () =>
+  NextResponse.json(
+    { message: "The server is temporarily unavailable" },
+    { status: 502 }
+  );
+
+export const badRequest = () =>
+  NextResponse.json({ message: "Invalid request body" }, { status: 400 });
+
+/**
+ * Parses a JSON request body; null when it is missing or malformed.
+ */
+export async function readJsonBody<T>(request: NextRequest): Promise<T | null> {
+  try {
+    const body = await request.json();
+    return body && typeof body === "object" ? (body as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Relays a backend response to the browser as-is, including its status.
+ */
+export async function relayResponse(response: Response) {
+  const headers = new Headers();
+  const contentType = response.headers.get("Content-Type");
+  if (contentType) headers.set("Content-Type", contentType);
+  const contentDisposition = response.headers.get("Content-Disposition");
+  if (contentDisposition) headers.set("Content-Disposition", contentDisposition);
+  // Lockout and rate-limit responses say how long to wait
+  const retryAfter = response.headers.get("Retry-After");
+  if (retryAfter) headers.set("Retry-After", retryAfter);
+
+  return new NextResponse(
+    response.status === 204 ? null : await response.arrayBuffer(),
+    { status: response.status, headers }
+  );
+}
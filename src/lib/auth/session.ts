@@ -0,0 +1,70 @@
+// Tokens live in httpOnly cookies set by the /api/session route handlers and
+// are never readable from the browser. The proxy only checks that the
+// refresh cookie is present; the backend still validates every request.
+export const ACCESS_TOKEN_COOKIE = "access_token";
+export const REFRESH_TOKEN_COOKIE = "refresh_token";
+// Short-lived challenge between the password and 2FA code steps
+export const MFA_TOKEN_COOKIE = "mfa_token";
+// Ties an OAuth callback to the browser that started the flow
+export const OAUTH_STATE_COOKIE = "oauth_state";
+
+export const LOGIN_PATH = "/login";
+export const DEFAULT_AUTHENTICATED_PATH = "/dashboard";
+
+export interface SessionUser {
+  id: string;
+  email: string;
+  name: string;
+  roles?: string[];
+  // Undefined when the token carries no verification claim
+  emailVerified?: boolean;
+}
+
+export interface SessionResponse {
+  user: SessionUser;
+  // Access token expiry in server time (ms since epoch), null if unknown
+  expiresAt: number | null;
+  // Server clock when the response was built, used to correct client skew
+  serverTime: number;
+}
+
+export interface MfaRequiredResponse {
+  mfaRequired: true;
+}
+
+export type LoginResponse = SessionResponse | MfaRequiredResponse;
+
+// Values of `?reason=` that make /login show a notice
+export const SESSION_EXPIRED_REASON = "session_expired";
+export const SESSION_REVOKED_REASON = "session_revoked";
+export const IDLE_TIMEOUT_REASON = "idle_timeout";
+export const OAUTH_FAILED_REASON = "oauth_failed";
+export const OAUTH_ACCOUNT_EXISTS_REASON = "oauth_account_exists";
+export const RESET_REQUESTED_REASON = "reset_requested";
+export const PASSWORD_RESET_REASON = "password_reset";
+export const EMAIL_VERIFIED_REASON = "email_verified";
+export const ACCOUNT_DELETED_REASON = "account_deleted";
+
+// Inactivity before automatic sign-out, set with
+// NEXT_PUBLIC_IDLE_TIMEOUT_MINUTES (0 disables it)
+const idleTimeoutMinutes = Number(
+  process.env.NEXT_PUBLIC_IDLE_TIMEOUT_MINUTES ?? 30
+);
+export const IDLE_TIMEOUT_MS =
+  (Number.isFinite(idleTimeoutMinutes) ? idleTimeoutMinutes : 30) * 60_000;
+// How long the "still there?" countdown runs before signing out
+export const IDLE_WARNING_MS = 60_000;
+
+// Minimum wait between verification email resends
+export const VERIFICATION_RESEND_COOLDOWN_SECONDS = 60;
+
+/**
+ * Returns `next` when it is a same-origin path, otherwise the dashboard.
+ * Guards against open redirects such as `?next=//evil.example`.
+ */
+export const getSafeRedirect = (next: string | null | undefined): string => {
+  if (!next || !next.startsWith("/") || next.startsWith("//") || next.startsWith("/\\")) {
+    return DEFAULT_AUTHENTICATED_PATH;
+  }
+  return next;
+};
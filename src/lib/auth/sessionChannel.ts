@@ -0,0 +1,77 @@
+import { SessionResponse } from "./session";
+
+// Keeps every open tab in step with login, logout and token rotation. The
+// tokens themselves are shared cookies; what each tab needs to hear about is
+// the change in state.
+
+export type SessionMessage =
+  | { type: "login"; session: SessionResponse }
+  | { type: "refreshed"; session: SessionResponse }
+  | { type: "logout"; reason?: string };
+
+type SessionListener = (message: SessionMessage) => void;
+
+const CHANNEL_NAME = "auth-session";
+// Fallback for browsers without BroadcastChannel: a write to this key fires a
+// `storage` event in every other tab
+const STORAGE_KEY = "auth-session-event";
+const REFRESH_LOCK = "auth-session-refresh";
+
+const isBrowser = () => typeof window !== "undefined";
+
+let channel: BroadcastChannel | null = null;
+
+const getChannel = () => {
+  if (!isBrowser() || typeof BroadcastChannel === "undefined") return null;
+  channel ??= new BroadcastChannel(CHANNEL_NAME);
+  return channel;
+};
+
+export const sessionChannel = {
+  post(message: SessionMessage) {
+    const broadcast = getChannel();
+    if (broadcast) {
+      broadcast.postMessage(message);
+      return;
+    }
+    if (!isBrowser()) return;
+    // The timestamp makes repeated messages distinct so each one fires
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({ message, sentAt: Date.now() })
+    );
+    localStorage.removeItem(STORAGE_KEY);
+  },
+  subscribe(listener: SessionListener) {
+    const broadcast = getChannel();
+    if (broadcast) {
+      const handleMessage = (event: MessageEvent<SessionMessage>) =>
+        listener(event.data);
+      broadcast.addEventListener("message", handleMessage);
+      return () => broadcast.removeEventListener("message", handleMessage);
+    }
+    if (!isBrowser()) return () => {};
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== STORAGE_KEY || !event.newValue) return;
+      try {
+        listener(JSON.parse(event.newValue).message as SessionMessage);
+      } catch {
+        // ignore malformed entries
+      }
+    };
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  },
+};
+
+/**
+ * Runs `task` while holding a lock shared by all tabs, so only one of them
+ * rotates the refresh token at a time. Without the Web Locks API the task
+ * runs unguarded.
+ */
+export async function withRefreshLock<T>(task: () => Promise<T>): Promise<T> {
+  if (!isBrowser() || !navigator.locks) {
+    return task();
+  }
+  return navigator.locks.request(REFRESH_LOCK, task);
+}
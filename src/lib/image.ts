@@ -0,0 +1,78 @@
+export interface SquareCrop {
+  zoom: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+export const loadImageFromFile = (file: File): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Unable to read image file"));
+    };
+    image.src = url;
+  });
+
+// Returns where the image should be drawn so that it always covers a square
+// of `size` pixels, clamping the offsets so no empty edges show.
+export const getSquareCropRect = (
+  image: HTMLImageElement,
+  crop: SquareCrop,
+  size: number
+) => {
+  const baseScale = size / Math.min(image.naturalWidth, image.naturalHeight);
+  const scale = baseScale * crop.zoom;
+  const width = image.naturalWidth * scale;
+  const height = image.naturalHeight * scale;
+  const minX = size - width;
+  const minY = size - height;
+  const x = Math.min(0, Math.max(minX, minX / 2 + crop.offsetX));
+  const y = Math.min(0, Math.max(minY, minY / 2 + crop.offsetY));
+
+  return { x, y, width, height };
+};
+
+export const drawSquareCrop = (
+  canvas: HTMLCanvasElement,
+  image: HTMLImageElement,
+  crop: SquareCrop
+) => {
+  const context = canvas.getContext("2d");
+  if (!context) return;
+  const size = canvas.width;
+  const rect = getSquareCropRect(image, crop, size);
+  context.clearRect(0, 0, size, size);
+  context.imageSmoothingQuality = "high";
+  context.drawImage(image, rect.x, rect.y, rect.width, rect.height);
+};
+
+export const cropImageToSquare = (
+  image: HTMLImageElement,
+  crop: SquareCrop,
+  size: number,
+  type = "image/jpeg",
+  quality = 0.9
+): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const canvas = document.createElement("canvas");
+    canvas.width = size;
+    canvas.height = size;
+    drawSquareCrop(canvas, image, crop);
+    canvas.toBlob(
+      (blob) => {
+        if (blob) {
+          resolve(blob);
+        } else {
+          reject(new Error("Unable to encode cropped image"));
+        }
+      },
+      type,
+      quality
+    );
+  });
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  DEFAULT_AUTHENTICATED_PATH,
+  LOGIN_PATH,
+  REFRESH_TOKEN_COOKIE,
+  getSafeRedirect,
+} from "@/lib/auth/session";
+import { getRoutePermission, hasPermission } from "@/lib/auth/permissions";
+import { deriveUser, isTokenExpired, readTokens } from "@/lib/auth/server";
+
+const PROTECTED_PREFIXES = ["/dashboard"];
+const GUEST_ONLY_PATHS = [
+  LOGIN_PATH,
+  "/signup",
+  "/forgot-password",
+  "/reset-password",
+  "/check-email",
+];
+
+const matchesPrefix = (pathname: string, prefix: string) =>
+  pathname === prefix || pathname.startsWith(`${prefix}/`);
+
+/**
+ * Route protection (Next's middleware, named `proxy` since v16). Only checks
+ * that the refresh cookie is present; the backend still validates the token
+ * on every request.
+ */
+export function proxy(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const hasSession = request.cookies.has(REFRESH_TOKEN_COOKIE);
+
+  if (pathname === "/") {
+    const target = hasSession ? DEFAULT_AUTHENTICATED_PATH : LOGIN_PATH;
+    return NextResponse.redirect(new URL(target, request.url));
+  }
+
+  if (!hasSession && PROTECTED_PREFIXES.some((p) => matchesPrefix(pathname, p))) {
+    const loginUrl = new URL(LOGIN_PATH, request.url);
+    loginUrl.searchParams.set("next", `${pathname}${search}`);
+    return NextResponse.redirect(loginUrl);
+  }
+
+  // Roles come from the access token; when it has lapsed the page loads and
+  // <RequireRole> decides once the client has refreshed the session
+  const permission = getRoutePermission(pathname);
+  const { accessToken } = readTokens(request);
+  if (
+    permission &&
+    accessToken &&
+    !isTokenExpired(accessToken) &&
+    !hasPermission(deriveUser(accessToken).roles, permission)
+  ) {
+    return NextResponse.redirect(
+      new URL(DEFAULT_AUTHENTICATED_PATH, request.url)
+    );
+  }
+
+  if (hasSession && GUEST_ONLY_PATHS.some((p) => matchesPrefix(pathname, p))) {
+    const next = request.nextUrl.searchParams.get("next");
+    return NextResponse.redirect(new URL(getSafeRedirect(next), request.url));
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: [
+    "/",
+    "/dashboard/:path*",
+    "/login",
+    "/signup",
+    "/forgot-password",
+    "/reset-password",
+    "/check-email",
+  ],
+};
@@ -77,6 +77,7 @@ export interface Project {
   userId: number;
   title: string;
   description: string;
+  techStack: string[];
   githubLink?: string;
   liveLink?: string;
   displayOrder: number;
@@ -87,9 +88,88 @@ export interface ProjectRequest {
   userId: number;
   title: string;
   description: string;
+  techStack: string[];
   githubLink?: string;
   liveLink?: string;
   displayOrder: number;
   featured: boolean;
 }
 
+export interface Profile {
+  id: number;
+  userId: number;
+  name: string;
+  role: string;
+  bio: string;
+  email: string;
+  phone?: string;
+  location?: string;
+  website?: string;
+  github?: string;
+  linkedin?: string;
+  twitter?: string;
+  profilePicture?: string;
+}
+
+export interface ProfileRequest {
+  userId: number;
+  name: string;
+  role: string;
+  bio: string;
+  email: string;
+  phone?: string;
+  location?: string;
+  website?: string;
+  github?: string;
+  linkedin?: string;
+  twitter?: string;
+  profilePicture?: string;
+}
+
+export interface DisplayOrderUpdate {
+  id: number;
+  displayOrder: number;
+}
+
+export interface MfaStatus {
+  enabled: boolean;
+  recoveryCodesRemaining?: number;
+}
+
+export interface MfaSetup {
+  secret: string;
+  otpauthUri: string;
+}
+
+export interface MfaRecoveryCodes {
+  recoveryCodes: string[];
+}
+
+// A signed-in device, i.e. one refresh token
+export interface ActiveSession {
+  id: string;
+  userAgent?: string;
+  ipAddress?: string;
+  createdAt: string;
+  lastUsedAt: string;
+  // The session making this request
+  current: boolean;
+}
+
+// An OAuth provider account linked to the user
+export interface LinkedIdentity {
+  provider: string;
+  username?: string;
+  email?: string;
+  linkedAt: string;
+}
+
+// An account as listed in user management (admins only)
+export interface ManagedUser {
+  id: number;
+  email: string;
+  name: string;
+  roles: string[];
+  emailVerified: boolean;
+  createdAt: string;
+}